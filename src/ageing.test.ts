@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { ageBucket, ageDocuments } from "./ageing.js";
+
+const api = "https://api.freeagent.com/v2";
+const acme = `${api}/contacts/1`;
+const globex = `${api}/contacts/2`;
+
+describe("ageBucket", () => {
+  it("splits days overdue at 30, 60 and 90", () => {
+    expect([-5, 0, 1, 30, 31, 60, 61, 90, 91].map(ageBucket)).toEqual([
+      "current",
+      "current",
+      "1_30",
+      "1_30",
+      "31_60",
+      "31_60",
+      "61_90",
+      "61_90",
+      "90_plus",
+    ]);
+  });
+});
+
+describe("ageDocuments", () => {
+  it("buckets outstanding amounts per contact and currency", () => {
+    const report = ageDocuments(
+      [
+        { url: `${api}/invoices/1`, contact: acme, contact_name: "Acme", dated_on: "2024-06-01", due_on: "2024-06-30", due_value: "100.0", currency: "GBP" },
+        { url: `${api}/invoices/2`, contact: acme, contact_name: "Acme", dated_on: "2024-03-01", due_on: "2024-03-31", due_value: "250.5", currency: "GBP" },
+        { url: `${api}/invoices/3`, contact: globex, contact_name: "Globex", dated_on: "2023-12-01", due_on: "2023-12-31", due_value: "40.0", currency: "USD" },
+        { url: `${api}/invoices/4`, contact: acme, dated_on: "2024-07-01", due_on: "2024-07-31", due_value: "999.0", currency: "GBP" },
+      ],
+      "2024-06-15"
+    );
+
+    expect(report.contacts).toEqual([
+      expect.objectContaining({
+        contact: acme,
+        currency: "GBP",
+        documents: 2,
+        current: "100.00",
+        "61_90": "250.50",
+        total: "350.50",
+      }),
+      expect.objectContaining({ contact: globex, currency: "USD", "90_plus": "40.00", total: "40.00" }),
+    ]);
+    expect(report.totals).toEqual({
+      GBP: { current: "100.00", "1_30": "0.00", "31_60": "0.00", "61_90": "250.50", "90_plus": "0.00", total: "350.50" },
+      USD: { current: "0.00", "1_30": "0.00", "31_60": "0.00", "61_90": "0.00", "90_plus": "40.00", total: "40.00" },
+    });
+    expect(report.native).toBeUndefined();
+  });
+
+  it("converts foreign amounts into a native total and warns when it cannot", () => {
+    const report = ageDocuments(
+      [
+        { url: `${api}/invoices/1`, contact: acme, due_on: "2024-06-01", due_value: "100.0", currency: "GBP" },
+        { url: `${api}/invoices/2`, contact: globex, due_on: "2024-06-01", due_value: "50.0", currency: "USD", exchange_rate: "0.8" },
+        { url: `${api}/invoices/3`, reference: "INV-003", contact: globex, due_on: "2024-06-01", due_value: "10.0", currency: "EUR" },
+      ],
+      "2024-06-15",
+      "GBP"
+    );
+
+    expect(report.native).toMatchObject({ currency: "GBP", "1_30": "140.00", total: "140.00" });
+    expect(report.warnings).toEqual([
+      "INV-003 is in EUR with no exchange rate; left out of the GBP total",
+    ]);
+  });
+});
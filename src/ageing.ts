@@ -0,0 +1,130 @@
+// Buckets outstanding invoices or bills by how long they have been overdue,
+// for aged debtors and aged creditors reports.
+
+import { cents, daysBetween, money } from "./utils.js";
+
+export interface OutstandingDocument {
+  url: string;
+  reference?: string;
+  contact?: string;
+  contact_name?: string;
+  dated_on?: string;
+  due_on?: string;
+  due_value?: string;
+  currency?: string;
+  exchange_rate?: string;
+}
+
+export const AGE_BUCKETS = ["current", "1_30", "31_60", "61_90", "90_plus"] as const;
+
+export type AgeBucket = (typeof AGE_BUCKETS)[number];
+
+export type BucketTotals = Record<AgeBucket | "total", string>;
+
+export interface ContactAgeing extends BucketTotals {
+  contact?: string;
+  contact_name?: string;
+  currency: string;
+  documents: number;
+}
+
+export interface AgeingReport {
+  as_at: string;
+  contacts: ContactAgeing[];
+  /** Bucket totals keyed by currency */
+  totals: Record<string, BucketTotals>;
+  /** Everything converted to the native currency, when one was given */
+  native?: BucketTotals & { currency: string };
+  warnings: string[];
+}
+
+export function ageBucket(days: number): AgeBucket {
+  if (days <= 0) return "current";
+  if (days <= 30) return "1_30";
+  if (days <= 60) return "31_60";
+  if (days <= 90) return "61_90";
+  return "90_plus";
+}
+
+function emptyCents(): Record<AgeBucket | "total", number> {
+  return { current: 0, "1_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0, total: 0 };
+}
+
+function format(amounts: Record<AgeBucket | "total", number>): BucketTotals {
+  const result = {} as BucketTotals;
+  for (const [bucket, value] of Object.entries(amounts)) {
+    result[bucket as AgeBucket | "total"] = money(value);
+  }
+  return result;
+}
+
+/**
+ * Ages the documents still owed as at `asAt`, per contact and currency. With
+ * `nativeCurrency`, foreign amounts are also converted using each document's
+ * exchange_rate (document currency to native) into a single native total.
+ */
+export function ageDocuments(
+  documents: OutstandingDocument[],
+  asAt: string,
+  nativeCurrency?: string
+): AgeingReport {
+  const contacts = new Map<string, { row: ContactAgeing; cents: Record<AgeBucket | "total", number> }>();
+  const totals = new Map<string, Record<AgeBucket | "total", number>>();
+  const native = emptyCents();
+  const warnings: string[] = [];
+
+  for (const doc of documents) {
+    const amount = cents(doc.due_value);
+    if (amount === 0 || (doc.dated_on && doc.dated_on > asAt)) continue;
+
+    const currency = doc.currency ?? nativeCurrency ?? "unknown";
+    const bucket = ageBucket(daysBetween(doc.due_on ?? doc.dated_on ?? asAt, asAt));
+    const key = `${doc.contact ?? doc.contact_name}|${currency}`;
+    const entry = contacts.get(key) ?? {
+      row: {
+        contact: doc.contact,
+        contact_name: doc.contact_name,
+        currency,
+        documents: 0,
+        ...format(emptyCents()),
+      },
+      cents: emptyCents(),
+    };
+    entry.row.documents++;
+    entry.cents[bucket] += amount;
+    entry.cents.total += amount;
+    contacts.set(key, entry);
+
+    const currencyTotals = totals.get(currency) ?? emptyCents();
+    currencyTotals[bucket] += amount;
+    currencyTotals.total += amount;
+    totals.set(currency, currencyTotals);
+
+    if (nativeCurrency) {
+      if (currency === nativeCurrency) {
+        native[bucket] += amount;
+        native.total += amount;
+      } else if (doc.exchange_rate && Number(doc.exchange_rate) > 0) {
+        const converted = Math.round(amount * Number(doc.exchange_rate));
+        native[bucket] += converted;
+        native.total += converted;
+      } else {
+        warnings.push(
+          `${doc.reference ?? doc.url} is in ${currency} with no exchange rate; left out of the ${nativeCurrency} total`
+        );
+      }
+    }
+  }
+
+  const rows = [...contacts.values()]
+    .map(({ row, cents: amounts }) => ({ ...row, ...format(amounts) }))
+    .sort((a, b) => cents(b.total) - cents(a.total));
+
+  return {
+    as_at: asAt,
+    contacts: rows,
+    totals: Object.fromEntries([...totals].map(([currency, amounts]) => [currency, format(amounts)])),
+    ...(nativeCurrency ? { native: { currency: nativeCurrency, ...format(native) } } : {}),
+    warnings,
+  };
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ResponseCache, DEFAULT_CACHE_TTLS } from "./cache.js";
+import { FreeAgentClient } from "./client.js";
+import { CACHE_TTL_MS } from "./utils.js";
+
+vi.mock("node:fs", () => ({
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+}));
+
+vi.mock("node:os", () => ({
+  homedir: vi.fn(() => "/mock-home"),
+}));
+
+import { readFileSync, writeFileSync } from "node:fs";
+
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockWriteFileSync = vi.mocked(writeFileSync);
+
+const BASE = "https://api.freeagent.com/v2";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  vi.stubGlobal("fetch", mockFetch);
+  mockReadFileSync.mockReset();
+  mockWriteFileSync.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+function mockOk(body: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    text: async () => JSON.stringify(body),
+  } as Response;
+}
+
+describe("ResponseCache", () => {
+  it("caches the slow-changing resources by default", () => {
+    expect(DEFAULT_CACHE_TTLS["/company"]).toBe(CACHE_TTL_MS);
+    expect(DEFAULT_CACHE_TTLS["/categories"]).toBe(CACHE_TTL_MS);
+    const cache = new ResponseCache();
+    expect(cache.isCacheable("/users")).toBe(true);
+    expect(cache.isCacheable("/invoices")).toBe(false);
+    expect(cache.isCacheable("/company/tax_timeline")).toBe(false);
+  });
+
+  it("builds keys independent of param order", () => {
+    expect(ResponseCache.key(BASE, "/users", { a: "1", b: "2" })).toBe(
+      ResponseCache.key(BASE, "users", { b: "2", a: "1" })
+    );
+  });
+
+  it("expires entries after their resource TTL", () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttls: { "/users": 1000 } });
+    const key = ResponseCache.key(BASE, "/users");
+    cache.set(key, "/users", { data: { users: [] }, headers: {} });
+
+    expect(cache.get(key)).toEqual({ data: { users: [] }, headers: {} });
+    vi.advanceTimersByTime(1001);
+    expect(cache.get(key)).toBeUndefined();
+  });
+
+  it("invalidates every entry under the same top-level resource", () => {
+    const cache = new ResponseCache();
+    const company = ResponseCache.key(BASE, "/company");
+    const business = ResponseCache.key(BASE, "/company/business_categories");
+    const users = ResponseCache.key(BASE, "/users");
+    cache.set(company, "/company", { data: 1, headers: {} });
+    cache.set(business, "/company/business_categories", { data: 2, headers: {} });
+    cache.set(users, "/users", { data: 3, headers: {} });
+
+    cache.invalidate("/company");
+
+    expect(cache.get(company)).toBeUndefined();
+    expect(cache.get(business)).toBeUndefined();
+    expect(cache.get(users)).toBeDefined();
+  });
+
+  it("clears cached bank account balances when transactions are explained or imported", () => {
+    const cache = new ResponseCache();
+    const accounts = ResponseCache.key(BASE, "/bank_accounts");
+    const users = ResponseCache.key(BASE, "/users");
+    cache.set(users, "/users", { data: 1, headers: {} });
+
+    for (const path of ["/bank_transaction_explanations", "/bank_transactions/statement"]) {
+      cache.set(accounts, "/bank_accounts", { data: 2, headers: {} });
+      cache.invalidate(path);
+      expect(cache.get(accounts)).toBeUndefined();
+    }
+    expect(cache.get(users)).toBeDefined();
+  });
+
+  it("loads unexpired entries from disk when persistent", () => {
+    const key = ResponseCache.key(BASE, "/categories");
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({
+        [key]: { data: "fresh", headers: {}, path: "/categories", expires_at: Date.now() + 5000 },
+        stale: { data: "old", headers: {}, path: "/users", expires_at: Date.now() - 5000 },
+      })
+    );
+    const cache = new ResponseCache({ persist: true });
+
+    expect(cache.get(key)?.data).toBe("fresh");
+    expect(cache.get("stale")).toBeUndefined();
+    expect(mockReadFileSync).toHaveBeenCalledWith("/mock-home/.freeagent-mcp/cache.json", "utf-8");
+  });
+
+  it("writes to disk only when persistent", () => {
+    const key = ResponseCache.key(BASE, "/users");
+    new ResponseCache().set(key, "/users", { data: 1, headers: {} });
+    expect(mockWriteFileSync).not.toHaveBeenCalled();
+
+    mockReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    new ResponseCache({ persist: true }).set(key, "/users", { data: 1, headers: {} });
+    expect(mockWriteFileSync).toHaveBeenCalledWith(
+      "/mock-home/.freeagent-mcp/cache.json",
+      expect.stringContaining('"data":1'),
+      { mode: 0o600 }
+    );
+  });
+});
+
+describe("FreeAgentClient - caching", () => {
+  it("serves repeated GETs of cacheable paths from the cache", async () => {
+    mockFetch.mockResolvedValue(mockOk({ categories: [] }));
+    const client = new FreeAgentClient("token", BASE, { cache: new ResponseCache() });
+
+    await client.get("/categories");
+    const second = await client.get("/categories");
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(second).toEqual({ categories: [] });
+  });
+
+  it("does not cache other paths", async () => {
+    mockFetch.mockResolvedValue(mockOk({ invoices: [] }));
+    const client = new FreeAgentClient("token", BASE, { cache: new ResponseCache() });
+
+    await client.get("/invoices");
+    await client.get("/invoices");
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("refetches after a write to the same resource", async () => {
+    mockFetch.mockResolvedValue(mockOk({ users: [] }));
+    const client = new FreeAgentClient("token", BASE, { cache: new ResponseCache() });
+
+    await client.get("/users");
+    await client.putJson("/users/123", { user: { first_name: "Sam" } });
+    await client.get("/users");
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
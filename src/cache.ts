@@ -0,0 +1,159 @@
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { CACHE_TTL_MS } from "./utils.js";
+
+export interface CachedResponse {
+  data: unknown;
+  headers: Record<string, string>;
+}
+
+interface CacheEntry extends CachedResponse {
+  path: string;
+  expires_at: number;
+}
+
+export interface ResponseCacheOptions {
+  /** Exact resource path -> TTL in ms. Paths not listed are never cached. */
+  ttls?: Record<string, number>;
+  /** Persist entries to disk so they survive restarts */
+  persist?: boolean;
+  cacheFile?: string;
+}
+
+const CACHE_DIR = join(homedir(), ".freeagent-mcp");
+const CACHE_FILE = join(CACHE_DIR, "cache.json");
+
+// Slow-changing resources worth caching
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  "/company": CACHE_TTL_MS,
+  "/company/business_categories": CACHE_TTL_MS,
+  "/categories": CACHE_TTL_MS,
+  "/users": 60 * 60 * 1000,
+  "/bank_accounts": 60 * 60 * 1000,
+};
+
+// Writes to these resources change data cached under others: explaining or
+// importing bank transactions moves the balances listed by /bank_accounts
+const DEPENDENT_RESOURCES: Record<string, string[]> = {
+  "/bank_transactions": ["/bank_accounts"],
+  "/bank_transaction_explanations": ["/bank_accounts"],
+};
+
+function normalizePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, "");
+  return trimmed.startsWith("/") ? trimmed : "/" + trimmed;
+}
+
+// "/company/business_categories" -> "/company"
+function topLevel(path: string): string {
+  return "/" + normalizePath(path).split("/")[1].split("?")[0];
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttls: Record<string, number>;
+  private persist: boolean;
+  private cacheFile: string;
+  private loaded = false;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttls = options.ttls ?? DEFAULT_CACHE_TTLS;
+    this.persist = options.persist ?? false;
+    this.cacheFile = options.cacheFile ?? CACHE_FILE;
+  }
+
+  static key(baseUrl: string, path: string, params?: Record<string, string>): string {
+    const query = Object.entries(params ?? {})
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${k}=${v}`)
+      .join("&");
+    return `${baseUrl}${normalizePath(path)}?${query}`;
+  }
+
+  isCacheable(path: string): boolean {
+    return this.ttls[normalizePath(path)] !== undefined;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    this.load();
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() >= entry.expires_at) {
+      this.entries.delete(key);
+      this.save();
+      return undefined;
+    }
+    return { data: entry.data, headers: entry.headers };
+  }
+
+  set(key: string, path: string, value: CachedResponse): void {
+    const ttl = this.ttls[normalizePath(path)];
+    if (ttl === undefined) return;
+    this.load();
+    this.entries.set(key, {
+      ...value,
+      path: normalizePath(path),
+      expires_at: Date.now() + ttl,
+    });
+    this.save();
+  }
+
+  // Drops every entry under the same top-level resource as `path`, so a write
+  // to /users/123 clears /users and a write to /company clears its sub-resources.
+  // Resources the write affects indirectly are cleared too.
+  invalidate(path: string): void {
+    this.load();
+    const prefix = topLevel(path);
+    const affected = new Set([prefix, ...(DEPENDENT_RESOURCES[prefix] ?? [])]);
+    let changed = false;
+    for (const [key, entry] of this.entries) {
+      if (affected.has(topLevel(entry.path))) {
+        this.entries.delete(key);
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.loaded = true;
+    this.save();
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.persist) return;
+    try {
+      const stored = JSON.parse(readFileSync(this.cacheFile, "utf-8")) as Record<
+        string,
+        CacheEntry
+      >;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry.expires_at > now) this.entries.set(key, entry);
+      }
+    } catch {
+      // Missing or corrupt cache file - start empty
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    try {
+      mkdirSync(dirname(this.cacheFile), { recursive: true });
+      writeFileSync(
+        this.cacheFile,
+        JSON.stringify(Object.fromEntries(this.entries)),
+        { mode: 0o600 }
+      );
+    } catch (err) {
+      console.error(
+        "Failed to write response cache:",
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+}
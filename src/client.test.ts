@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { FreeAgentClient, FreeAgentApiError } from "./client.js";
+import {
+  FreeAgentClient,
+  FreeAgentApiError,
+  parseLinkHeader,
+  parseRetryAfter,
+  ReadOnlyModeError,
+  decodeBase64Payload,
+} from "./client.js";
 
 let mockFetch: ReturnType<typeof vi.fn>;
 
@@ -21,10 +28,24 @@ function mockOk(body: unknown): Response {
   } as Response;
 }
 
-function mockError(status: number, body: unknown): Response {
+function mockPage(body: unknown, headers: Record<string, string>): Response {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(headers),
+    text: async () => JSON.stringify(body),
+  } as Response;
+}
+
+function mockError(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response {
   return {
     ok: false,
     status,
+    headers: new Headers(headers),
     text: async () =>
       typeof body === "string" ? body : JSON.stringify(body),
   } as Response;
@@ -235,7 +256,7 @@ describe("FreeAgentClient - error handling", () => {
   it("returns safe fallback for malformed error body", async () => {
     mockFetch.mockResolvedValueOnce(mockError(500, "not json"));
 
-    const client = new FreeAgentClient("token");
+    const client = new FreeAgentClient("token", undefined, { retry: { maxRetries: 0 } });
     try {
       await client.get("/v2/test");
       expect.fail("should have thrown");
@@ -246,3 +267,253 @@ describe("FreeAgentClient - error handling", () => {
     }
   });
 });
+
+describe("FreeAgentClient - binary responses", () => {
+  function mockBytes(bytes: Buffer, contentType: string): Response {
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers({ "Content-Type": contentType }),
+      arrayBuffer: async () => bytes,
+    } as unknown as Response;
+  }
+
+  it("decodes JSON-wrapped base64 content", async () => {
+    const pdf = Buffer.from("%PDF-1.4 invoice");
+    const body = Buffer.from(JSON.stringify({ pdf: { content: pdf.toString("base64") } }));
+    mockFetch.mockResolvedValueOnce(mockBytes(body, "application/json; charset=utf-8"));
+    const client = new FreeAgentClient("tok");
+
+    const result = await client.getBinary("/invoices/1/pdf");
+
+    expect(result).toEqual({ data: pdf, content_type: "application/pdf" });
+    expect(mockFetch.mock.calls[0][0]).toContain("/invoices/1/pdf");
+  });
+
+  it("returns raw bytes for non-JSON responses", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    mockFetch.mockResolvedValueOnce(mockBytes(png, "image/png"));
+    const client = new FreeAgentClient("tok");
+
+    await expect(client.getBinary("/attachments/1/file")).resolves.toEqual({
+      data: png,
+      content_type: "image/png",
+    });
+  });
+
+  it("reports JSON without file content", () => {
+    expect(() => decodeBase64Payload({ invoice: { url: "x" } })).toThrow(
+      "did not contain base64 file content"
+    );
+    expect(decodeBase64Payload({ content: "AAE=" }).content_type).toBe("application/octet-stream");
+  });
+});
+
+describe("parseLinkHeader", () => {
+  it("maps rel names to URLs", () => {
+    const links = parseLinkHeader(
+      '<https://api.freeagent.com/v2/invoices?page=2&per_page=50>; rel="next", ' +
+        '<https://api.freeagent.com/v2/invoices?page=5&per_page=50>; rel="last"'
+    );
+    expect(links.next).toBe("https://api.freeagent.com/v2/invoices?page=2&per_page=50");
+    expect(links.last).toBe("https://api.freeagent.com/v2/invoices?page=5&per_page=50");
+  });
+
+  it("returns an empty map for a missing header", () => {
+    expect(parseLinkHeader(null)).toEqual({});
+  });
+});
+
+describe("FreeAgentClient - pagination", () => {
+  const link = (next?: number, last = 3) =>
+    [
+      next ? `<https://api.freeagent.com/v2/contacts?page=${next}>; rel="next"` : "",
+      `<https://api.freeagent.com/v2/contacts?page=${last}>; rel="last"`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+  it("getPage reports next/last page and total count", async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockPage({ contacts: [] }, { Link: link(2), "X-Total-Count": "120" })
+    );
+    const client = new FreeAgentClient("token");
+    const { pagination } = await client.getPage("/contacts", { per_page: "50" });
+
+    expect(pagination).toEqual({
+      page: 1,
+      per_page: 50,
+      next_page: 2,
+      last_page: 3,
+      total_count: 120,
+    });
+  });
+
+  it("getAllPages follows next links and combines items", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockPage({ contacts: [1, 2] }, { Link: link(2) }))
+      .mockResolvedValueOnce(mockPage({ contacts: [3, 4] }, { Link: link(3) }))
+      .mockResolvedValueOnce(mockPage({ contacts: [5] }, { Link: link() }));
+    const client = new FreeAgentClient("token");
+    const result = await client.getAllPages("/contacts", "contacts", { view: "all" }, 100);
+
+    expect(result.items).toEqual([1, 2, 3, 4, 5]);
+    expect(result.pages_fetched).toBe(3);
+    expect(result.truncated).toBe(false);
+    const secondUrl = new URL(mockFetch.mock.calls[1][0] as string);
+    expect(secondUrl.searchParams.get("page")).toBe("2");
+    expect(secondUrl.searchParams.get("per_page")).toBe("50");
+    expect(secondUrl.searchParams.get("view")).toBe("all");
+  });
+
+  it("getAllPages stops at the item cap and flags truncation", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockPage({ contacts: [1, 2] }, { Link: link(2) }))
+      .mockResolvedValueOnce(mockPage({ contacts: [3, 4] }, { Link: link(3) }));
+    const client = new FreeAgentClient("token");
+    const result = await client.getAllPages("/contacts", "contacts", {}, 3);
+
+    expect(result.items).toEqual([1, 2, 3]);
+    expect(result.truncated).toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delay-seconds", () => {
+    expect(parseRetryAfter("5")).toBe(5000);
+  });
+
+  it("parses an HTTP date", () => {
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const ms = parseRetryAfter(inTenSeconds)!;
+    expect(ms).toBeGreaterThan(8000);
+    expect(ms).toBeLessThanOrEqual(10_000);
+  });
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("FreeAgentClient - retries", () => {
+  const fastRetry = { retry: { baseDelayMs: 1, maxDelayMs: 5 } };
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("retries GETs on 429 and 5xx until success", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockError(429, { error: "rate_limited" }))
+      .mockResolvedValueOnce(mockError(503, "unavailable"))
+      .mockResolvedValueOnce(mockOk({ data: "ok" }));
+    const client = new FreeAgentClient("token", undefined, fastRetry);
+
+    const result = await client.get("/v2/test");
+
+    expect(result).toEqual({ data: "ok" });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after maxRetries and throws the last error", async () => {
+    mockFetch.mockResolvedValue(mockError(503, "unavailable"));
+    const client = new FreeAgentClient("token", undefined, {
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+    });
+
+    await expect(client.get("/v2/test")).rejects.toBeInstanceOf(FreeAgentApiError);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry non-transient errors", async () => {
+    mockFetch.mockResolvedValue(mockError(422, { message: "invalid" }));
+    const client = new FreeAgentClient("token", undefined, fastRetry);
+
+    await expect(client.get("/v2/test")).rejects.toBeInstanceOf(FreeAgentApiError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry writes unless marked safe", async () => {
+    mockFetch.mockResolvedValue(mockError(429, { error: "rate_limited" }));
+    const client = new FreeAgentClient("token", undefined, fastRetry);
+
+    await expect(client.postJson("/v2/test", {})).rejects.toBeInstanceOf(FreeAgentApiError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries writes marked safe to retry", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockError(502, "bad gateway"))
+      .mockResolvedValueOnce(mockOk({ data: "ok" }));
+    const client = new FreeAgentClient("token", undefined, fastRetry);
+
+    await client.putJson("/v2/test/1/transitions/mark_as_sent", {}, { retry: true });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries GETs after network failures", async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(mockOk({ data: "ok" }));
+    const client = new FreeAgentClient("token", undefined, fastRetry);
+
+    expect(await client.get("/v2/test")).toEqual({ data: "ok" });
+  });
+
+  it("waits for Retry-After before retrying", async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce(mockError(429, "slow down", { "Retry-After": "2" }))
+        .mockResolvedValueOnce(mockOk({ data: "ok" }));
+      const client = new FreeAgentClient("token");
+
+      const pending = client.get("/v2/test");
+      await vi.advanceTimersByTimeAsync(1900);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(await pending).toEqual({ data: "ok" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("takes a rate-limit token before every attempt", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockError(500, "oops"))
+      .mockResolvedValueOnce(mockOk({ data: "ok" }));
+    const take = vi.fn().mockResolvedValue(undefined);
+    const client = new FreeAgentClient("token", undefined, {
+      ...fastRetry,
+      rateLimiter: { take } as any,
+    });
+
+    await client.get("/v2/test");
+
+    expect(take).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("FreeAgentClient - read-only mode", () => {
+  it("refuses writes without calling the API", async () => {
+    const client = new FreeAgentClient("token", undefined, { readOnly: true });
+
+    await expect(client.postJson("/invoices", {})).rejects.toBeInstanceOf(ReadOnlyModeError);
+    await expect(client.putJson("/invoices/1", {})).rejects.toThrow(
+      "Read-only mode: refusing to send PUT /invoices/1"
+    );
+    await expect(client.deleteReq("/invoices/1")).rejects.toBeInstanceOf(ReadOnlyModeError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("still allows GETs", async () => {
+    mockFetch.mockResolvedValueOnce(mockOk({ invoices: [] }));
+    const client = new FreeAgentClient("token", undefined, { readOnly: true });
+
+    expect(await client.get("/invoices")).toEqual({ invoices: [] });
+  });
+});
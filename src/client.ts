@@ -1,5 +1,92 @@
+import { MAX_PAGE_SIZE, sleep } from "./utils.js";
+import { ResponseCache } from "./cache.js";
+import type { TokenBucket } from "./rate-limit.js";
+import { getDryRunContext, diffFields, type PlannedRequest } from "./dry-run.js";
+
 const DEFAULT_BASE_URL = "https://api.freeagent.com/v2";
 
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ClientOptions {
+  cache?: ResponseCache;
+  retry?: Partial<RetryOptions>;
+  rateLimiter?: TokenBucket;
+  /** Refuse every non-GET request */
+  readOnly?: boolean;
+}
+
+export interface RequestOptions {
+  /** Allow a write to be retried on 429/5xx. Only set for idempotent writes. */
+  retry?: boolean;
+}
+
+interface SendOptions extends RequestOptions {
+  /** Return the response body as raw bytes instead of parsed JSON */
+  binary?: boolean;
+}
+
+export interface BinaryResult {
+  data: Buffer;
+  content_type: string;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Response headers kept alongside cached bodies
+const CACHED_HEADERS = ["Link", "X-Total-Count"];
+
+export interface PageInfo {
+  page: number;
+  per_page: number;
+  next_page?: number;
+  last_page?: number;
+  total_count?: number;
+}
+
+export interface PagedResult<T> {
+  data: T;
+  pagination: PageInfo;
+}
+
+export interface AllPagesResult {
+  items: unknown[];
+  pages_fetched: number;
+  total_count?: number;
+  truncated: boolean;
+}
+
+/**
+ * Decodes a JSON-wrapped file such as FreeAgent's PDF responses,
+ * `{"pdf": {"content": "<base64>"}}`.
+ */
+export function decodeBase64Payload(body: unknown): BinaryResult {
+  const candidates = [body, ...Object.values((body as Record<string, unknown>) ?? {})];
+  for (const candidate of candidates) {
+    const content = (candidate as Record<string, unknown> | null)?.content;
+    if (typeof content !== "string") continue;
+    const data = Buffer.from(content, "base64");
+    const declared = (candidate as Record<string, unknown>).content_type;
+    const content_type =
+      typeof declared === "string"
+        ? declared
+        : data.subarray(0, 4).toString("latin1") === "%PDF"
+          ? "application/pdf"
+          : "application/octet-stream";
+    return { data, content_type };
+  }
+  throw new Error("Response did not contain base64 file content");
+}
+
 export class FreeAgentApiError extends Error {
   public readonly status: number;
   public readonly errorCode: string;
@@ -12,6 +99,13 @@ export class FreeAgentApiError extends Error {
   }
 }
 
+export class ReadOnlyModeError extends Error {
+  constructor(method: string, path: string) {
+    super(`Read-only mode: refusing to send ${method} ${path}`);
+    this.name = "ReadOnlyModeError";
+  }
+}
+
 function parseApiError(status: number, body: string): FreeAgentApiError {
   try {
     const parsed = JSON.parse(body);
@@ -27,6 +121,37 @@ function parseApiError(status: number, body: string): FreeAgentApiError {
   }
 }
 
+// Parses an RFC 8288 Link header into a map of rel -> URL
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) links[match[2]] = match[1];
+  }
+  return links;
+}
+
+function pageFromUrl(url: string | undefined): number | undefined {
+  if (!url) return undefined;
+  try {
+    const page = new URL(url).searchParams.get("page");
+    return page ? Number(page) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
 function encodeFormBody(data: Record<string, string>): string {
   return new URLSearchParams(data).toString();
 }
@@ -34,16 +159,25 @@ function encodeFormBody(data: Record<string, string>): string {
 export class FreeAgentClient {
   private getAccessToken: () => Promise<string>;
   private baseUrl: string;
+  private cache?: ResponseCache;
+  private retry: RetryOptions;
+  private rateLimiter?: TokenBucket;
+  private readOnly: boolean;
 
   constructor(
     tokenOrProvider: string | (() => Promise<string>),
-    baseUrl?: string
+    baseUrl?: string,
+    options: ClientOptions = {}
   ) {
     this.getAccessToken =
       typeof tokenOrProvider === "function"
         ? tokenOrProvider
         : async () => tokenOrProvider;
     this.baseUrl = baseUrl || DEFAULT_BASE_URL;
+    this.cache = options.cache;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.rateLimiter = options.rateLimiter;
+    this.readOnly = options.readOnly ?? false;
   }
 
   async get<T = unknown>(
@@ -53,37 +187,125 @@ export class FreeAgentClient {
     return this.request<T>("GET", path, undefined, undefined, params);
   }
 
+  async getPage<T = unknown>(
+    path: string,
+    params?: Record<string, string>
+  ): Promise<PagedResult<T>> {
+    const { data, headers } = await this.send<T>("GET", path, undefined, undefined, params);
+    const links = parseLinkHeader(headers.get("Link"));
+    const totalCount = headers.get("X-Total-Count");
+    const perPage = Number(params?.per_page);
+    const pagination: PageInfo = {
+      page: Number(params?.page) || 1,
+      per_page: perPage || MAX_PAGE_SIZE,
+    };
+    const nextPage = pageFromUrl(links.next);
+    const lastPage = pageFromUrl(links.last);
+    if (nextPage !== undefined) pagination.next_page = nextPage;
+    if (lastPage !== undefined) pagination.last_page = lastPage;
+    if (totalCount) pagination.total_count = Number(totalCount);
+    return { data, pagination };
+  }
+
+  // Fetches a file. JSON responses are expected to wrap it as base64 (see
+  // decodeBase64Payload); anything else is returned as raw bytes.
+  async getBinary(path: string, params?: Record<string, string>): Promise<BinaryResult> {
+    const { data, headers } = await this.send<Buffer>("GET", path, undefined, undefined, params, {
+      binary: true,
+    });
+    const contentType = headers?.get("Content-Type")?.split(";")[0].trim();
+    if (!contentType || contentType === "application/json") {
+      return decodeBase64Payload(JSON.parse(data.toString("utf-8")));
+    }
+    return { data, content_type: contentType };
+  }
+
+  // Follows `next` links until exhausted or maxItems collected. `key` is the
+  // collection name in the response body, e.g. "invoices".
+  async getAllPages(
+    path: string,
+    key: string,
+    params: Record<string, string> = {},
+    maxItems: number
+  ): Promise<AllPagesResult> {
+    const items: unknown[] = [];
+    let page = 1;
+    let pagesFetched = 0;
+    let totalCount: number | undefined;
+
+    for (;;) {
+      const { data, pagination } = await this.getPage<Record<string, unknown>>(path, {
+        ...params,
+        page: String(page),
+        per_page: String(MAX_PAGE_SIZE),
+      });
+      pagesFetched++;
+      totalCount = pagination.total_count ?? totalCount;
+      const pageItems = Array.isArray(data?.[key]) ? (data[key] as unknown[]) : [];
+      items.push(...pageItems);
+
+      if (items.length >= maxItems) {
+        const truncated = items.length > maxItems || pagination.next_page !== undefined;
+        return {
+          items: items.slice(0, maxItems),
+          pages_fetched: pagesFetched,
+          total_count: totalCount,
+          truncated,
+        };
+      }
+      if (pagination.next_page === undefined || pageItems.length === 0) break;
+      page = pagination.next_page;
+    }
+
+    return { items, pages_fetched: pagesFetched, total_count: totalCount, truncated: false };
+  }
+
   async postForm<T = unknown>(
     path: string,
-    body?: Record<string, string>
+    body?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<T> {
-    return this.request<T>("POST", path, body, "form");
+    return this.request<T>("POST", path, body, "form", undefined, options);
   }
 
-  async postJson<T = unknown>(path: string, body: unknown): Promise<T> {
-    return this.request<T>("POST", path, body, "json");
+  async postJson<T = unknown>(
+    path: string,
+    body: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("POST", path, body, "json", undefined, options);
   }
 
   async putForm<T = unknown>(
     path: string,
-    body?: Record<string, string>
+    body?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<T> {
-    return this.request<T>("PUT", path, body, "form");
+    return this.request<T>("PUT", path, body, "form", undefined, options);
   }
 
-  async putJson<T = unknown>(path: string, body: unknown): Promise<T> {
-    return this.request<T>("PUT", path, body, "json");
+  async putJson<T = unknown>(
+    path: string,
+    body: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("PUT", path, body, "json", undefined, options);
   }
 
-  async patchJson<T = unknown>(path: string, body: unknown): Promise<T> {
-    return this.request<T>("PATCH", path, body, "json");
+  async patchJson<T = unknown>(
+    path: string,
+    body: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>("PATCH", path, body, "json", undefined, options);
   }
 
   async deleteReq<T = unknown>(
     path: string,
-    params?: Record<string, string>
+    params?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<T> {
-    return this.request<T>("DELETE", path, undefined, undefined, params);
+    return this.request<T>("DELETE", path, undefined, undefined, params, options);
   }
 
   private async request<T = unknown>(
@@ -91,8 +313,56 @@ export class FreeAgentClient {
     path: string,
     body?: unknown,
     bodyType?: "form" | "json",
-    params?: Record<string, string>
+    params?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<T> {
+    const { data } = await this.send<T>(method, path, body, bodyType, params, options);
+    return data;
+  }
+
+  // Describes a write for dry-run output. Updates to a single resource
+  // (PUT /invoices/123) also get a diff against its current state.
+  private async planRequest(
+    method: string,
+    path: string,
+    url: string,
+    body: unknown
+  ): Promise<PlannedRequest> {
+    const planned: PlannedRequest = { method, url };
+    if (body !== undefined) planned.body = body;
+
+    const isResourcePath = path.split("?")[0].split("/").filter(Boolean).length === 2;
+    const entries = body && typeof body === "object" ? Object.entries(body) : [];
+    if (method !== "PUT" || !isResourcePath || entries.length !== 1) return planned;
+
+    const [key, proposed] = entries[0];
+    try {
+      const current = await this.get<Record<string, Record<string, unknown>>>(path);
+      planned.diff = diffFields(current[key] ?? {}, proposed as Record<string, unknown>);
+    } catch (err) {
+      planned.diff_error = err instanceof Error ? err.message : String(err);
+    }
+    return planned;
+  }
+
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    // Full jitter: spread retries from parallel callers across the window
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async send<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+    bodyType?: "form" | "json",
+    params?: Record<string, string>,
+    options: SendOptions = {}
+  ): Promise<{ data: T; headers: Headers }> {
+    if (this.readOnly && method !== "GET") {
+      throw new ReadOnlyModeError(method, path);
+    }
+
     const base = this.baseUrl.endsWith("/") ? this.baseUrl : this.baseUrl + "/";
     const fullPath = path.startsWith("/") ? path.slice(1) : path;
     const url = new URL(fullPath, base);
@@ -103,36 +373,100 @@ export class FreeAgentClient {
       }
     }
 
-    const accessToken = await this.getAccessToken();
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${accessToken}`,
-      Accept: "application/json",
-      "User-Agent": "freeagent-mcp/1.0.0",
-    };
+    const dryRun = method !== "GET" ? getDryRunContext() : undefined;
+    if (dryRun) {
+      const planned = await this.planRequest(method, path, url.toString(), body);
+      dryRun.requests.push(planned);
+      return { data: planned as T, headers: new Headers() };
+    }
+
+    const cacheKey =
+      method === "GET" && !options.binary && this.cache?.isCacheable(path)
+        ? ResponseCache.key(this.baseUrl, path, params)
+        : undefined;
+    if (cacheKey) {
+      const cached = this.cache!.get(cacheKey);
+      if (cached) return { data: cached.data as T, headers: new Headers(cached.headers) };
+    }
 
+
+    let contentType: string | undefined;
     let encodedBody: string | undefined;
 
     if (body && bodyType === "json") {
-      headers["Content-Type"] = "application/json";
+      contentType = "application/json";
       encodedBody = JSON.stringify(body);
     } else if (body && bodyType === "form") {
-      headers["Content-Type"] = "application/x-www-form-urlencoded";
+      contentType = "application/x-www-form-urlencoded";
       encodedBody = encodeFormBody(body as Record<string, string>);
     }
 
-    const response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: encodedBody,
-    });
+    // Writes are only replayed when the caller says they are idempotent
+    const maxRetries =
+      method === "GET" || options.retry === true ? this.retry.maxRetries : 0;
+    let response: Response;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter?.take();
+
+      const accessToken = await this.getAccessToken();
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/json",
+        "User-Agent": "freeagent-mcp/1.0.0",
+      };
+      if (contentType) headers["Content-Type"] = contentType;
+
+      try {
+        response = await fetch(url.toString(), {
+          method,
+          headers,
+          body: encodedBody,
+        });
+      } catch (err) {
+        // Network failure
+        if (attempt >= maxRetries) throw err;
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries) {
+        break;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers?.get("Retry-After") ?? null);
+      const delay = retryAfter ?? this.backoffDelay(attempt);
+      console.error(
+        `FreeAgent API returned ${response.status} for ${method} ${path}, ` +
+          `retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`
+      );
+      await sleep(Math.min(delay, this.retry.maxDelayMs));
+    }
 
     if (!response.ok) {
       const errorBody = await response.text();
       throw parseApiError(response.status, errorBody);
     }
 
-    const text = await response.text();
-    if (!text) return {} as T;
-    return JSON.parse(text) as T;
+    let data: T;
+    if (options.binary) {
+      data = Buffer.from(await response.arrayBuffer()) as T;
+    } else {
+      const text = await response.text();
+      data = (text ? JSON.parse(text) : {}) as T;
+    }
+
+    if (method !== "GET") {
+      this.cache?.invalidate(path);
+    } else if (cacheKey) {
+      const headersToKeep: Record<string, string> = {};
+      for (const name of CACHED_HEADERS) {
+        const value = response.headers?.get(name);
+        if (value) headersToKeep[name] = value;
+      }
+      this.cache!.set(cacheKey, path, { data, headers: headersToKeep });
+    }
+
+    return { data, headers: response.headers };
   }
 }
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  parseList,
+  parseNonNegativeInt,
+  loadConfigFile,
+  resolveServerOptions,
+} from "./config.js";
+
+vi.mock("node:fs", () => ({
+  readFileSync: vi.fn(),
+}));
+
+import { readFileSync } from "node:fs";
+
+const mockReadFileSync = vi.mocked(readFileSync);
+
+beforeEach(() => {
+  mockReadFileSync.mockReset();
+});
+
+describe("parseList", () => {
+  it("splits and trims comma-separated values", () => {
+    expect(parseList("users, projects ,tasks")).toEqual(["users", "projects", "tasks"]);
+  });
+
+  it("returns undefined for unset or blank values", () => {
+    expect(parseList(undefined)).toBeUndefined();
+    expect(parseList("  ")).toBeUndefined();
+  });
+});
+
+describe("parseNonNegativeInt", () => {
+  it("parses whole numbers and ignores unset values", () => {
+    expect(parseNonNegativeInt("FREEAGENT_MAX_RETRIES", " 3 ")).toBe(3);
+    expect(parseNonNegativeInt("FREEAGENT_RATE_LIMIT", "0")).toBe(0);
+    expect(parseNonNegativeInt("FREEAGENT_MAX_RETRIES", undefined)).toBeUndefined();
+  });
+
+  it("rejects anything else", () => {
+    for (const value of ["three", "-1", "2.5", "1e3"]) {
+      expect(() => parseNonNegativeInt("FREEAGENT_MAX_RETRIES", value)).toThrow(
+        `FREEAGENT_MAX_RETRIES must be a non-negative whole number, got "${value}"`
+      );
+    }
+  });
+});
+
+describe("loadConfigFile", () => {
+  it("reads modules, include, exclude and readOnly", () => {
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({
+        modules: ["timeslips"],
+        include: ["freeagent_*"],
+        exclude: ["freeagent_delete_*"],
+        readOnly: true,
+      })
+    );
+    expect(loadConfigFile("/etc/freeagent.json")).toEqual({
+      modules: ["timeslips"],
+      include: ["freeagent_*"],
+      exclude: ["freeagent_delete_*"],
+      readOnly: true,
+    });
+  });
+
+  it("rejects invalid JSON", () => {
+    mockReadFileSync.mockReturnValue("{ nope");
+    expect(() => loadConfigFile("/bad.json")).toThrow("Could not read config file /bad.json");
+  });
+
+  it("rejects fields of the wrong type", () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ modules: "users" }));
+    expect(() => loadConfigFile("/bad.json")).toThrow('"modules" must be an array of strings');
+  });
+});
+
+describe("resolveServerOptions", () => {
+  it("reads lists from env vars", () => {
+    const options = resolveServerOptions({
+      FREEAGENT_MODULES: "users,projects,tasks,timeslips",
+      FREEAGENT_TOOLS_EXCLUDE: "*_delete_*",
+    });
+    expect(options.modules).toEqual(["users", "projects", "tasks", "timeslips"]);
+    expect(options.exclude).toEqual(["*_delete_*"]);
+    expect(options.include).toBeUndefined();
+    expect(options.readOnly).toBe(false);
+  });
+
+  it("lets env vars override the config file", () => {
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({ modules: ["invoices"], include: ["freeagent_list_*"] })
+    );
+    const options = resolveServerOptions({ FREEAGENT_MODULES: "banking" }, "/cfg.json");
+    expect(options.modules).toEqual(["banking"]);
+    expect(options.include).toEqual(["freeagent_list_*"]);
+  });
+
+  it("enables dry-run from either source", () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ dryRun: true }));
+    expect(resolveServerOptions({}, "/cfg.json").dryRun).toBe(true);
+    expect(resolveServerOptions({ FREEAGENT_DRY_RUN: "true" }).dryRun).toBe(true);
+    expect(resolveServerOptions({}).dryRun).toBe(false);
+  });
+
+  it("enables read-only from either source", () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ readOnly: true }));
+    expect(resolveServerOptions({}, "/cfg.json").readOnly).toBe(true);
+    expect(resolveServerOptions({ FREEAGENT_READ_ONLY: "true" }).readOnly).toBe(true);
+  });
+
+  it("reads the upload and output directories from the environment", () => {
+    const options = resolveServerOptions({
+      FREEAGENT_UPLOAD_DIR: "/srv/uploads",
+      FREEAGENT_OUTPUT_DIR: "/srv/pdfs",
+    });
+    expect(options.uploadDir).toBe("/srv/uploads");
+    expect(options.outputDir).toBe("/srv/pdfs");
+    expect(resolveServerOptions({ FREEAGENT_UPLOAD_DIR: "" }).uploadDir).toBeUndefined();
+  });
+
+  it("rejects unknown module names", () => {
+    expect(() => resolveServerOptions({ FREEAGENT_MODULES: "invoices,stock" })).toThrow(
+      "Unknown module(s): stock"
+    );
+  });
+});
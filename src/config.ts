@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { TOOL_MODULES, type ServerOptions } from "./server.js";
+
+/**
+ * Shape of the JSON file passed with `--config` / FREEAGENT_CONFIG:
+ *
+ *   {
+ *     "modules": ["users", "projects", "tasks", "timeslips"],
+ *     "include": ["freeagent_*"],
+ *     "exclude": ["freeagent_delete_*"],
+ *     "readOnly": false,
+ *     "dryRun": false
+ *   }
+ *
+ * File locations (FREEAGENT_UPLOAD_DIR, FREEAGENT_OUTPUT_DIR) are only read
+ * from the environment.
+ */
+export type ConfigFile = Pick<ServerOptions, "modules" | "include" | "exclude" | "readOnly" | "dryRun">;
+
+export function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses a whole number setting such as FREEAGENT_MAX_RETRIES. Returns
+ * undefined when unset and throws on anything but a non-negative integer.
+ */
+export function parseNonNegativeInt(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${name} must be a non-negative whole number, got "${value}"`);
+  }
+  return Number(value.trim());
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+export function loadConfigFile(path: string): ConfigFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `Could not read config file ${path}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Config file ${path} must contain a JSON object`);
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const config: ConfigFile = {};
+  for (const key of ["modules", "include", "exclude"] as const) {
+    if (raw[key] === undefined) continue;
+    if (!isStringArray(raw[key])) {
+      throw new Error(`Config file ${path}: "${key}" must be an array of strings`);
+    }
+    config[key] = raw[key] as string[];
+  }
+  for (const key of ["readOnly", "dryRun"] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "boolean") {
+      throw new Error(`Config file ${path}: "${key}" must be a boolean`);
+    }
+    config[key] = raw[key] as boolean;
+  }
+  return config;
+}
+
+/**
+ * Merges the optional config file with environment variables. Env vars win
+ * for list settings; read-only and dry-run are enabled if either source asks.
+ */
+export function resolveServerOptions(
+  env: Record<string, string | undefined>,
+  configPath?: string
+): ServerOptions {
+  const file = configPath ? loadConfigFile(configPath) : {};
+  const options: ServerOptions = {
+    modules: parseList(env.FREEAGENT_MODULES) ?? file.modules,
+    include: parseList(env.FREEAGENT_TOOLS_INCLUDE) ?? file.include,
+    exclude: parseList(env.FREEAGENT_TOOLS_EXCLUDE) ?? file.exclude,
+    readOnly: env.FREEAGENT_READ_ONLY === "true" || file.readOnly === true,
+    dryRun: env.FREEAGENT_DRY_RUN === "true" || file.dryRun === true,
+    uploadDir: env.FREEAGENT_UPLOAD_DIR || undefined,
+    outputDir: env.FREEAGENT_OUTPUT_DIR || undefined,
+  };
+
+  const unknown = (options.modules ?? []).filter((name) => !(name in TOOL_MODULES));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown module(s): ${unknown.join(", ")}. ` +
+        `Valid modules: ${Object.keys(TOOL_MODULES).join(", ")}`
+    );
+  }
+
+  return options;
+}
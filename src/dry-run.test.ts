@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { diffFields, runDryRun, withDryRun } from "./dry-run.js";
+import { FreeAgentClient } from "./client.js";
+import { isMutatingTool } from "./tool-filter.js";
+import { registerInvoiceTools } from "./tools/invoices.js";
+import { registerTimeslipTools } from "./tools/timeslips.js";
+
+type ToolHandler = (...args: any[]) => any;
+
+function createMockServer() {
+  const tools = new Map<string, { schema: Record<string, unknown>; cb: ToolHandler }>();
+  return {
+    server: {
+      registerTool: vi.fn((name: string, config: any, cb: ToolHandler) => {
+        tools.set(name, { schema: config.inputSchema ?? {}, cb });
+      }),
+      tool: vi.fn((name: string, _desc: string, schema: any, cb: ToolHandler) => {
+        tools.set(name, { schema, cb });
+      }),
+    } as any,
+    tools,
+  };
+}
+
+function mockOk(body: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    text: async () => JSON.stringify(body),
+  } as Response;
+}
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  vi.stubGlobal("fetch", mockFetch);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("diffFields", () => {
+  it("reports only fields whose value changes", () => {
+    expect(
+      diffFields(
+        { reference: "INV-1", comments: "old", currency: "GBP" },
+        { reference: "INV-1", comments: "new" }
+      )
+    ).toEqual({ comments: { current: "old", proposed: "new" } });
+  });
+
+  it("compares nested values structurally", () => {
+    expect(diffFields({ items: [{ a: 1 }] }, { items: [{ a: 1 }] })).toEqual({});
+  });
+});
+
+describe("FreeAgentClient - dry run", () => {
+  const BASE = "https://api.freeagent.com/v2";
+
+  it("records writes instead of sending them", async () => {
+    const client = new FreeAgentClient("token", BASE);
+    const { result, requests } = await runDryRun(() =>
+      client.postJson("/invoices", { invoice: { reference: "INV-9" } })
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(requests).toEqual([
+      { method: "POST", url: `${BASE}/invoices`, body: { invoice: { reference: "INV-9" } } },
+    ]);
+    expect(result).toEqual(requests[0]);
+  });
+
+  it("diffs updates against the current resource", async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockOk({ invoice: { reference: "INV-1", comments: "old", currency: "GBP" } })
+    );
+    const client = new FreeAgentClient("token", BASE);
+    const { requests } = await runDryRun(() =>
+      client.putJson("/invoices/1", { invoice: { reference: "INV-1", comments: "new" } })
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect((mockFetch.mock.calls[0][1] as RequestInit).method).toBe("GET");
+    expect(requests[0].diff).toEqual({ comments: { current: "old", proposed: "new" } });
+  });
+
+  it("does not diff transitions", async () => {
+    const client = new FreeAgentClient("token", BASE);
+    const { requests } = await runDryRun(() =>
+      client.putJson("/invoices/1/transitions/mark_as_sent", {})
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(requests[0].diff).toBeUndefined();
+  });
+
+  it("reports a failed lookup instead of throwing", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      headers: new Headers(),
+      text: async () => JSON.stringify({ error: "not_found", message: "missing" }),
+    } as Response);
+    const client = new FreeAgentClient("token", BASE);
+    const { requests } = await runDryRun(() =>
+      client.putJson("/invoices/404", { invoice: { comments: "x" } })
+    );
+
+    expect(requests[0].diff_error).toContain("404");
+  });
+});
+
+describe("withDryRun", () => {
+  it("adds dry_run only to write tools", () => {
+    const { server, tools } = createMockServer();
+    registerInvoiceTools(withDryRun(server, isMutatingTool), new FreeAgentClient("token"));
+
+    expect(tools.get("freeagent_update_invoice")!.schema).toHaveProperty("dry_run");
+    expect(tools.get("freeagent_send_invoice_email")!.schema).toHaveProperty("dry_run");
+    expect(tools.get("freeagent_list_invoices")!.schema).not.toHaveProperty("dry_run");
+  });
+
+  it("returns the planned request when dry_run is set", async () => {
+    const { server, tools } = createMockServer();
+    registerInvoiceTools(withDryRun(server, isMutatingTool), new FreeAgentClient("token"));
+
+    const result = await tools.get("freeagent_delete_invoice")!.cb({
+      invoice_id: "7",
+      dry_run: true,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      dry_run: true,
+      requests: [{ method: "DELETE", url: "https://api.freeagent.com/v2/invoices/7" }],
+    });
+  });
+
+  it("sends normally without dry_run", async () => {
+    mockFetch.mockResolvedValueOnce(mockOk({}));
+    const { server, tools } = createMockServer();
+    registerInvoiceTools(withDryRun(server, isMutatingTool), new FreeAgentClient("token"));
+
+    await tools.get("freeagent_delete_invoice")!.cb({ invoice_id: "7" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("forces dry-run for every write tool when enabled globally", async () => {
+    const { server, tools } = createMockServer();
+    registerTimeslipTools(withDryRun(server, isMutatingTool, true), new FreeAgentClient("token"));
+
+    const result = await tools.get("freeagent_start_timer")!.cb({ timeslip_id: "3" });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text).requests[0]).toEqual({
+      method: "POST",
+      url: "https://api.freeagent.com/v2/timeslips/3/timer",
+      body: {},
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { jsonResponse } from "./utils.js";
+
+export interface FieldChange {
+  current: unknown;
+  proposed: unknown;
+}
+
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+  /** Field-level changes against the current resource, for updates */
+  diff?: Record<string, FieldChange>;
+  diff_error?: string;
+}
+
+interface DryRunContext {
+  requests: PlannedRequest[];
+}
+
+const storage = new AsyncLocalStorage<DryRunContext>();
+
+// Set while a tool handler runs in dry-run mode; FreeAgentClient records
+// writes here instead of sending them.
+export function getDryRunContext(): DryRunContext | undefined {
+  return storage.getStore();
+}
+
+export async function runDryRun<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; requests: PlannedRequest[] }> {
+  const context: DryRunContext = { requests: [] };
+  const result = await storage.run(context, fn);
+  return { result, requests: context.requests };
+}
+
+export function diffFields(
+  current: Record<string, unknown>,
+  proposed: Record<string, unknown>
+): Record<string, FieldChange> {
+  const diff: Record<string, FieldChange> = {};
+  for (const [field, value] of Object.entries(proposed)) {
+    if (JSON.stringify(current[field]) !== JSON.stringify(value)) {
+      diff[field] = { current: current[field], proposed: value };
+    }
+  }
+  return diff;
+}
+
+type ToolCallback = (args: Record<string, unknown>, ...rest: unknown[]) => unknown;
+
+interface ToolConfig {
+  inputSchema?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .describe("Preview the request(s) this tool would send without changing anything in FreeAgent");
+
+/**
+ * Wraps an McpServer so every tool matched by `isWriteTool` gains a `dry_run`
+ * argument. In dry-run (per call, or always when `force` is set) the handler
+ * runs against the real client, but writes are recorded rather than sent and
+ * the planned requests are returned in place of the tool's own result.
+ */
+export function withDryRun(
+  server: McpServer,
+  isWriteTool: (name: string) => boolean,
+  force = false
+): McpServer {
+  function wrap(cb: ToolCallback): ToolCallback {
+    return async (args: Record<string, unknown>, ...rest: unknown[]) => {
+      const { dry_run, ...toolArgs } = args ?? {};
+      if (!dry_run && !force) return cb(toolArgs, ...rest);
+
+      const { result, requests } = await runDryRun(async () => cb(toolArgs, ...rest));
+      if ((result as { isError?: boolean })?.isError) return result;
+      return jsonResponse({ dry_run: true, requests });
+    };
+  }
+
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (prop === "registerTool") {
+        return (name: string, config: ToolConfig, cb: ToolCallback) => {
+          if (!isWriteTool(name)) return value.call(target, name, config, cb);
+          const inputSchema = { ...config.inputSchema, dry_run: dryRunSchema };
+          return value.call(target, name, { ...config, inputSchema }, wrap(cb));
+        };
+      }
+      if (prop === "tool") {
+        return (name: string, ...rest: unknown[]) => {
+          if (!isWriteTool(name)) return value.call(target, name, ...rest);
+          const cb = rest.pop() as ToolCallback;
+          // tool(name, description?, schema?, annotations?, cb)
+          const description = typeof rest[0] === "string" ? [rest.shift()] : [];
+          const schema = (rest.shift() as Record<string, unknown> | undefined) ?? {};
+          return value.call(
+            target,
+            name,
+            ...description,
+            { ...schema, dry_run: dryRunSchema },
+            ...rest,
+            wrap(cb)
+          );
+        };
+      }
+      return value;
+    },
+  });
+}
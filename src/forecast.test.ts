@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import {
+  expectedCashFlows,
+  forecastBalances,
+  paymentDelays,
+  type ForecastSources,
+} from "./forecast.js";
+
+const api = "https://api.freeagent.com/v2";
+const acme = `${api}/contacts/1`;
+
+function sources(overrides: Partial<ForecastSources> = {}): ForecastSources {
+  return {
+    invoices: [],
+    paidInvoices: [],
+    bills: [],
+    recurringInvoices: [],
+    recurringBills: [],
+    taxTimeline: [],
+    ...overrides,
+  };
+}
+
+describe("paymentDelays", () => {
+  it("averages days late per contact from paid invoices", () => {
+    const delays = paymentDelays([
+      { url: "1", contact: acme, due_on: "2024-01-31", paid_on: "2024-02-10" },
+      { url: "2", contact: acme, due_on: "2024-02-29", paid_on: "2024-03-19" },
+      { url: "3", contact: `${api}/contacts/2`, due_on: "2024-02-29", paid_on: "2024-02-25" },
+      { url: "4", contact: acme, due_on: "2024-03-31" },
+    ]);
+    expect(Object.fromEntries(delays)).toEqual({ [acme]: 15, [`${api}/contacts/2`]: -4 });
+  });
+});
+
+describe("expectedCashFlows", () => {
+  it("shifts receipts by the contact's usual delay and brings overdue items forward", () => {
+    const warnings: string[] = [];
+    const flows = expectedCashFlows(
+      sources({
+        invoices: [
+          { url: `${api}/invoices/1`, reference: "INV-1", contact: acme, contact_name: "Acme", due_on: "2024-06-05", due_value: "500.0" },
+          { url: `${api}/invoices/2`, reference: "INV-2", due_on: "2024-07-30", due_value: "80.0" },
+        ],
+        paidInvoices: [{ url: "p", contact: acme, due_on: "2024-04-01", paid_on: "2024-04-11" }],
+        bills: [{ url: `${api}/bills/1`, reference: "B-1", due_on: "2024-05-20", due_value: "120.0" }],
+        taxTimeline: [
+          { description: "VAT return", dated_on: "2024-06-07", amount_due: "300.0" },
+          { description: "Self assessment", dated_on: "2024-06-08", amount_due: "900.0", is_personal: true },
+        ],
+      }),
+      "2024-06-01",
+      "2024-06-28",
+      "GBP",
+      warnings
+    );
+
+    expect(flows.map((f) => [f.date, f.type, f.amount, f.description])).toEqual([
+      ["2024-06-01", "bill", "-120.00", "Bill B-1"],
+      ["2024-06-07", "tax", "-300.00", "VAT return"],
+      ["2024-06-15", "invoice", "500.00", "Invoice INV-1 (Acme)"],
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("projects recurring invoices and bills after their payment terms", () => {
+    const flows = expectedCashFlows(
+      sources({
+        recurringInvoices: [
+          {
+            url: `${api}/recurring_invoices/1`,
+            reference: "RETAINER",
+            frequency: "Monthly",
+            next_recurs_on: "2024-06-01",
+            payment_terms_in_days: 14,
+            total_value: "1000.0",
+          },
+        ],
+        recurringBills: [
+          { url: `${api}/bills/8`, contact: acme, dated_on: "2024-04-10", due_on: "2024-04-20", recurring: "Monthly", total_value: "50.0" },
+          { url: `${api}/bills/9`, contact: acme, dated_on: "2024-05-10", due_on: "2024-05-20", recurring: "Monthly", total_value: "50.0" },
+        ],
+      }),
+      "2024-06-01",
+      "2024-06-30",
+      "GBP",
+      []
+    );
+
+    expect(flows.map((f) => [f.date, f.type, f.amount])).toEqual([
+      ["2024-06-15", "recurring_invoice", "1000.00"],
+      ["2024-06-20", "recurring_bill", "-50.00"],
+    ]);
+  });
+
+  it("converts foreign documents and warns about those without a rate", () => {
+    const warnings: string[] = [];
+    const flows = expectedCashFlows(
+      sources({
+        invoices: [
+          { url: "1", due_on: "2024-06-03", due_value: "100.0", currency: "USD", exchange_rate: "0.8" },
+          { url: "2", reference: "INV-9", due_on: "2024-06-03", due_value: "100.0", currency: "EUR" },
+        ],
+      }),
+      "2024-06-01",
+      "2024-06-28",
+      "GBP",
+      warnings
+    );
+    expect(flows.map((f) => f.amount)).toEqual(["80.00"]);
+    expect(warnings).toEqual(["INV-9 is in EUR with no exchange rate; left out of the forecast"]);
+  });
+});
+
+describe("forecastBalances", () => {
+  const flows = [
+    { date: "2024-06-03", type: "bill" as const, amount: "-900.00", description: "Rent" },
+    { date: "2024-06-05", type: "invoice" as const, amount: "600.00", description: "INV-1" },
+    { date: "2024-06-12", type: "tax" as const, amount: "-100.00", description: "VAT" },
+  ];
+
+  it("rolls balances forward by week and flags dips below the threshold", () => {
+    const forecast = forecastBalances(flows, {
+      start: "2024-06-01",
+      weeks: 2,
+      interval: "week",
+      openingBalance: "1000",
+      currency: "GBP",
+      threshold: "500",
+    });
+
+    expect(forecast.periods).toEqual([
+      {
+        start: "2024-06-01",
+        end: "2024-06-07",
+        opening_balance: "1000.00",
+        receipts: "600.00",
+        payments: "-900.00",
+        closing_balance: "700.00",
+        lowest_balance: "100.00",
+        below_threshold: true,
+      },
+      {
+        start: "2024-06-08",
+        end: "2024-06-14",
+        opening_balance: "700.00",
+        receipts: "0.00",
+        payments: "-100.00",
+        closing_balance: "600.00",
+        lowest_balance: "600.00",
+        below_threshold: false,
+      },
+    ]);
+    expect(forecast.alerts).toEqual(["2024-06-01"]);
+  });
+
+  it("reports one period per day when asked", () => {
+    const forecast = forecastBalances(flows, {
+      start: "2024-06-01",
+      weeks: 1,
+      interval: "day",
+      openingBalance: "1000",
+      currency: "GBP",
+    });
+    expect(forecast.periods).toHaveLength(7);
+    expect(forecast.periods[2]).toMatchObject({ start: "2024-06-03", closing_balance: "100.00" });
+    expect(forecast.alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+// Projects bank balances forward from today's balances using open invoices
+// and bills, recurring profiles and upcoming tax payments.
+
+import { projectRecurringInvoices, type RecurringInvoice } from "./recurrence.js";
+import { addDays, cents, daysBetween, money } from "./utils.js";
+
+export interface ForecastInvoice {
+  url: string;
+  reference?: string;
+  contact?: string;
+  contact_name?: string;
+  dated_on?: string;
+  due_on?: string;
+  paid_on?: string;
+  due_value?: string;
+  currency?: string;
+  exchange_rate?: string;
+}
+
+export interface ForecastBill extends ForecastInvoice {
+  total_value?: string;
+  /** Frequency of a recurring bill, e.g. "Monthly" */
+  recurring?: string;
+  recurring_end_date?: string;
+}
+
+export interface ForecastRecurringInvoice extends RecurringInvoice {
+  payment_terms_in_days?: number;
+}
+
+export interface TaxTimelineItem {
+  description?: string;
+  nature?: string;
+  dated_on: string;
+  amount_due?: string;
+  is_personal?: boolean;
+}
+
+export type CashFlowType = "invoice" | "bill" | "recurring_invoice" | "recurring_bill" | "tax";
+
+export interface CashFlow {
+  date: string;
+  type: CashFlowType;
+  /** Signed amount in the native currency: positive in, negative out */
+  amount: string;
+  description: string;
+  source?: string;
+}
+
+export interface ForecastPeriod {
+  start: string;
+  end: string;
+  opening_balance: string;
+  receipts: string;
+  payments: string;
+  closing_balance: string;
+  lowest_balance: string;
+  below_threshold: boolean;
+}
+
+export interface CashFlowForecast {
+  currency: string;
+  opening_balance: string;
+  threshold: string;
+  periods: ForecastPeriod[];
+  /** Start dates of the periods whose balance dips below the threshold */
+  alerts: string[];
+  flows: CashFlow[];
+  warnings: string[];
+}
+
+function describe(kind: string, reference: string | undefined, party: string | undefined): string {
+  return [kind, reference, party && `(${party})`].filter(Boolean).join(" ");
+}
+
+/** Converts a document's amount to native-currency cents, or undefined when it cannot */
+function nativeCents(
+  value: string | undefined,
+  doc: { currency?: string; exchange_rate?: string },
+  nativeCurrency: string
+): number | undefined {
+  if (!doc.currency || doc.currency === nativeCurrency) return cents(value);
+  if (!doc.exchange_rate || Number(doc.exchange_rate) <= 0) return undefined;
+  return Math.round(cents(value) * Number(doc.exchange_rate));
+}
+
+/**
+ * Average days between due date and payment for each contact's paid
+ * invoices. Negative values mean the contact usually pays early.
+ */
+export function paymentDelays(paidInvoices: ForecastInvoice[]): Map<string, number> {
+  const sums = new Map<string, { days: number; count: number }>();
+  for (const invoice of paidInvoices) {
+    if (!invoice.contact || !invoice.paid_on || !invoice.due_on) continue;
+    const sum = sums.get(invoice.contact) ?? { days: 0, count: 0 };
+    sum.days += daysBetween(invoice.due_on, invoice.paid_on);
+    sum.count++;
+    sums.set(invoice.contact, sum);
+  }
+  return new Map([...sums].map(([contact, { days, count }]) => [contact, Math.round(days / count)]));
+}
+
+export interface ForecastSources {
+  invoices: ForecastInvoice[];
+  paidInvoices: ForecastInvoice[];
+  bills: ForecastBill[];
+  recurringInvoices: ForecastRecurringInvoice[];
+  recurringBills: ForecastBill[];
+  taxTimeline: TaxTimelineItem[];
+}
+
+export interface ForecastOptions {
+  start: string;
+  weeks: number;
+  interval: "day" | "week";
+  openingBalance: string;
+  currency: string;
+  threshold?: string;
+}
+
+/**
+ * Lists every expected receipt and payment between `start` and `end` in the
+ * native currency. Overdue items are expected on `start`.
+ */
+export function expectedCashFlows(
+  sources: ForecastSources,
+  start: string,
+  end: string,
+  currency: string,
+  warnings: string[]
+): CashFlow[] {
+  const flows: CashFlow[] = [];
+  const add = (
+    date: string,
+    type: CashFlowType,
+    amount: number | undefined,
+    description: string,
+    doc: { url?: string; currency?: string; reference?: string }
+  ) => {
+    if (amount === undefined) {
+      warnings.push(
+        `${doc.reference ?? doc.url} is in ${doc.currency} with no exchange rate; left out of the forecast`
+      );
+      return;
+    }
+    const expected = date < start ? start : date;
+    if (amount === 0 || expected > end) return;
+    flows.push({ date: expected, type, amount: money(amount), description, source: doc.url });
+  };
+
+  const delays = paymentDelays(sources.paidInvoices);
+  for (const invoice of sources.invoices) {
+    const due = invoice.due_on ?? invoice.dated_on ?? start;
+    const delay = (invoice.contact && delays.get(invoice.contact)) || 0;
+    add(
+      addDays(due, delay),
+      "invoice",
+      nativeCents(invoice.due_value, invoice, currency),
+      describe("Invoice", invoice.reference, invoice.contact_name ?? invoice.contact),
+      invoice
+    );
+  }
+
+  for (const bill of sources.bills) {
+    const amount = nativeCents(bill.due_value, bill, currency);
+    add(
+      bill.due_on ?? bill.dated_on ?? start,
+      "bill",
+      amount === undefined ? undefined : -amount,
+      describe("Bill", bill.reference, bill.contact_name ?? bill.contact),
+      bill
+    );
+  }
+
+  for (const profile of sources.recurringInvoices) {
+    const terms = profile.payment_terms_in_days ?? 0;
+    const raised = projectRecurringInvoices([profile], addDays(start, -terms), addDays(end, -terms));
+    for (const invoice of raised) {
+      add(
+        addDays(invoice.dated_on, terms),
+        "recurring_invoice",
+        nativeCents(invoice.total_value, profile, currency),
+        describe("Recurring invoice", profile.reference, profile.contact_name),
+        profile
+      );
+    }
+  }
+
+  // FreeAgent lists each bill in a recurring series, so project forward from
+  // the latest one per contact and frequency
+  const latestBills = new Map<string, ForecastBill>();
+  for (const bill of sources.recurringBills) {
+    if (!bill.recurring || !bill.dated_on) continue;
+    const key = `${bill.contact}|${bill.recurring}`;
+    const latest = latestBills.get(key);
+    if (!latest || latest.dated_on! < bill.dated_on) latestBills.set(key, bill);
+  }
+  for (const bill of latestBills.values()) {
+    const terms = bill.due_on ? daysBetween(bill.dated_on!, bill.due_on) : 0;
+    const from = addDays(start, -terms) > bill.dated_on! ? addDays(start, -terms) : addDays(bill.dated_on!, 1);
+    const raised = projectRecurringInvoices(
+      [
+        {
+          url: bill.url,
+          frequency: bill.recurring!,
+          next_recurs_on: bill.dated_on,
+          recurring_end_date: bill.recurring_end_date,
+          total_value: bill.total_value,
+        },
+      ],
+      from,
+      addDays(end, -terms)
+    );
+    for (const next of raised) {
+      const amount = nativeCents(next.total_value, bill, currency);
+      add(
+        addDays(next.dated_on, terms),
+        "recurring_bill",
+        amount === undefined ? undefined : -Math.abs(amount),
+        describe("Recurring bill", bill.reference, bill.contact_name ?? bill.contact),
+        bill
+      );
+    }
+  }
+
+  for (const item of sources.taxTimeline) {
+    if (item.is_personal || !item.amount_due || item.dated_on < start) continue;
+    add(item.dated_on, "tax", -Math.abs(cents(item.amount_due)), item.description ?? item.nature ?? "Tax payment", {});
+  }
+
+  return flows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Rolls the opening balance forward through `flows` in daily or weekly
+ * periods, flagging periods whose balance dips below the threshold.
+ */
+export function forecastBalances(flows: CashFlow[], options: ForecastOptions): Omit<CashFlowForecast, "warnings"> {
+  const step = options.interval === "day" ? 1 : 7;
+  const end = addDays(options.start, options.weeks * 7 - 1);
+  const threshold = cents(options.threshold ?? "0");
+  const periods: ForecastPeriod[] = [];
+  let balance = cents(options.openingBalance);
+  let next = 0;
+
+  for (let start = options.start; start <= end; start = addDays(start, step)) {
+    const periodEnd = addDays(start, step - 1);
+    const opening = balance;
+    let receipts = 0;
+    let payments = 0;
+    let lowest = balance;
+
+    while (next < flows.length && flows[next].date <= periodEnd) {
+      const amount = cents(flows[next].amount);
+      if (amount > 0) receipts += amount;
+      else payments += amount;
+      balance += amount;
+      lowest = Math.min(lowest, balance);
+      next++;
+    }
+
+    periods.push({
+      start,
+      end: periodEnd,
+      opening_balance: money(opening),
+      receipts: money(receipts),
+      payments: money(payments),
+      closing_balance: money(balance),
+      lowest_balance: money(lowest),
+      below_threshold: lowest < threshold,
+    });
+  }
+
+  return {
+    currency: options.currency,
+    opening_balance: money(cents(options.openingBalance)),
+    threshold: money(threshold),
+    periods,
+    alerts: periods.filter((period) => period.below_threshold).map((period) => period.start),
+    flows,
+  };
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpServer, isAuthorized, isLoopbackHost } from "./http.js";
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+const mcpHeaders = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+let httpServer: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  httpServer = await startHttpServer({
+    host: "127.0.0.1",
+    port: 0,
+    authToken: "secret-token",
+    createServer: () => new McpServer({ name: "test", version: "1.0.0" }),
+  });
+  const { port } = httpServer.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterEach(async () => {
+  httpServer.closeAllConnections();
+  await new Promise((resolve) => httpServer.close(resolve));
+  vi.restoreAllMocks();
+});
+
+describe("isAuthorized", () => {
+  it("accepts a matching bearer token", () => {
+    expect(isAuthorized("Bearer abc", "abc")).toBe(true);
+  });
+
+  it("rejects missing or wrong tokens", () => {
+    expect(isAuthorized(undefined, "abc")).toBe(false);
+    expect(isAuthorized("Bearer abd", "abc")).toBe(false);
+    expect(isAuthorized("Basic abc", "abc")).toBe(false);
+  });
+
+  it("allows everything when no token is configured", () => {
+    expect(isAuthorized(undefined, undefined)).toBe(true);
+  });
+});
+
+describe("isLoopbackHost", () => {
+  it("recognises loopback addresses", () => {
+    expect(isLoopbackHost("127.0.0.1")).toBe(true);
+    expect(isLoopbackHost("0.0.0.0")).toBe(false);
+  });
+});
+
+describe("startHttpServer", () => {
+  it("refuses to bind a public interface without a token", async () => {
+    await expect(
+      startHttpServer({
+        host: "0.0.0.0",
+        port: 0,
+        createServer: () => new McpServer({ name: "test", version: "1.0.0" }),
+      })
+    ).rejects.toThrow("FREEAGENT_MCP_HTTP_TOKEN");
+  });
+
+  it("returns 404 outside the MCP path", async () => {
+    const res = await fetch(`${baseUrl}/other`);
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 401 without the bearer token", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toBe("Bearer");
+  });
+
+  it("starts a session on initialize", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, Authorization: "Bearer secret-token" },
+      body: JSON.stringify(initializeRequest),
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("mcp-session-id")).toBeTruthy();
+    await res.body?.cancel();
+  });
+
+  it("rejects non-initialize requests without a session", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { ...mcpHeaders, Authorization: "Bearer secret-token" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("expires sessions that stay idle", async () => {
+    const idleServer = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      createServer: () => new McpServer({ name: "test", version: "1.0.0" }),
+      sessionIdleMs: 20,
+    });
+    const { port } = idleServer.address() as AddressInfo;
+    try {
+      const init = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: mcpHeaders,
+        body: JSON.stringify(initializeRequest),
+      });
+      const sessionId = init.headers.get("mcp-session-id")!;
+      await init.body?.cancel();
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const res = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: { ...mcpHeaders, "mcp-session-id": sessionId },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      });
+      expect(res.status).toBe(404);
+    } finally {
+      idleServer.closeAllConnections();
+      await new Promise((resolve) => idleServer.close(resolve));
+    }
+  });
+
+  it("keeps sessions with an open stream alive", async () => {
+    const idleServer = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      createServer: () => new McpServer({ name: "test", version: "1.0.0" }),
+      sessionIdleMs: 20,
+    });
+    const { port } = idleServer.address() as AddressInfo;
+    try {
+      const init = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: mcpHeaders,
+        body: JSON.stringify(initializeRequest),
+      });
+      const sessionId = init.headers.get("mcp-session-id")!;
+      await init.body?.cancel();
+
+      const stream = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        headers: { Accept: "text/event-stream", "mcp-session-id": sessionId },
+      });
+      expect(stream.status).toBe(200);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const res = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: { ...mcpHeaders, "mcp-session-id": sessionId },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      });
+      expect(res.status).not.toBe(404);
+      await res.body?.cancel();
+      await stream.body?.cancel();
+    } finally {
+      idleServer.closeAllConnections();
+      await new Promise((resolve) => idleServer.close(resolve));
+    }
+  });
+
+  it("returns 404 for an unknown session", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        ...mcpHeaders,
+        Authorization: "Bearer secret-token",
+        "mcp-session-id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must present. Required unless bound to loopback. */
+  authToken?: string;
+  /** Builds a fresh MCP server for each session */
+  createServer: () => McpServer;
+  /**
+   * Closes sessions that have made no request and held no open stream for
+   * this long (default 30 minutes)
+   */
+  sessionIdleMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  /** Requests still being answered, including long-lived GET streams */
+  openRequests: number;
+}
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host);
+}
+
+export function isAuthorized(header: string | undefined, token: string | undefined): boolean {
+  if (!token) return true;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  if (!options.authToken && !isLoopbackHost(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without FREEAGENT_MCP_HTTP_TOKEN. ` +
+        "Set a bearer token or bind to 127.0.0.1."
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  // Clients that go away without sending DELETE would otherwise keep their
+  // transport and MCP server alive for the life of the process
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests > 0 || session.lastSeen > cutoff) continue;
+      sessions.delete(id);
+      console.error(JSON.stringify({ ts: new Date().toISOString(), session: id, event: "expired" }));
+      session.server.close().catch(() => {});
+    }
+  }, Math.min(idleMs, 60_000));
+  sweeper.unref();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      res.writeHead(404);
+      res.end("Not found");
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" });
+      res.end("Unauthorized");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.lastSeen = Date.now();
+      session.openRequests++;
+      res.once("close", () => {
+        session.openRequests--;
+        session.lastSeen = Date.now();
+      });
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      sendJsonRpcError(res, 400, err instanceof Error ? err.message : "Invalid body");
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), openRequests: 0 });
+        console.error(JSON.stringify({ ts: new Date().toISOString(), session: id, event: "open" }));
+      },
+      onsessionclosed: (id) => {
+        sessions.delete(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error("HTTP transport error:", err);
+      if (!res.headersSent) sendJsonRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  httpServer.on("close", () => {
+    clearInterval(sweeper);
+    for (const session of sessions.values()) {
+      session.server.close().catch(() => {});
+    }
+    sessions.clear();
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
@@ -1,30 +1,64 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { FreeAgentClient } from "./client.js";
+import type { ClientOptions } from "./client.js";
+import { ResponseCache } from "./cache.js";
+import { TokenBucket, DEFAULT_REQUESTS_PER_MINUTE } from "./rate-limit.js";
 import { runAuthFlow, getValidAccessToken, getApiBase } from "./auth.js";
 import type { OAuthConfig } from "./auth.js";
-import { registerCompanyTools } from "./tools/company.js";
-import { registerUserTools } from "./tools/users.js";
-import { registerContactTools } from "./tools/contacts.js";
-import { registerProjectTools } from "./tools/projects.js";
-import { registerTaskTools } from "./tools/tasks.js";
-import { registerTimeslipTools } from "./tools/timeslips.js";
-import { registerInvoiceTools } from "./tools/invoices.js";
-import { registerEstimateTools } from "./tools/estimates.js";
-import { registerBillTools } from "./tools/bills.js";
-import { registerCreditNoteTools } from "./tools/credit-notes.js";
-import { registerExpenseTools } from "./tools/expenses.js";
-import { registerBankingTools } from "./tools/banking.js";
-import { registerCategoryTools } from "./tools/categories.js";
-import { registerAccountingTools } from "./tools/accounting.js";
+import { createServer } from "./server.js";
+import type { ServerOptions } from "./server.js";
+import { resolveServerOptions, parseNonNegativeInt } from "./config.js";
+import { startHttpServer } from "./http.js";
 
 const FREEAGENT_ACCESS_TOKEN = process.env.FREEAGENT_ACCESS_TOKEN;
 const FREEAGENT_CLIENT_ID = process.env.FREEAGENT_CLIENT_ID;
 const FREEAGENT_CLIENT_SECRET = process.env.FREEAGENT_CLIENT_SECRET;
 const FREEAGENT_SANDBOX = process.env.FREEAGENT_SANDBOX === "true";
 const FREEAGENT_BASE_URL = process.env.FREEAGENT_BASE_URL;
+const FREEAGENT_CACHE = process.env.FREEAGENT_CACHE; // "memory" | "disk"
+const FREEAGENT_MAX_RETRIES = process.env.FREEAGENT_MAX_RETRIES;
+const FREEAGENT_RATE_LIMIT = process.env.FREEAGENT_RATE_LIMIT; // requests per minute, 0 disables
+const FREEAGENT_MCP_HTTP_TOKEN = process.env.FREEAGENT_MCP_HTTP_TOKEN;
+
+function parseCliArgs() {
+  try {
+    return parseArgs({
+      options: {
+        transport: { type: "string", default: process.env.FREEAGENT_MCP_TRANSPORT || "stdio" },
+        host: { type: "string", default: process.env.FREEAGENT_MCP_HOST || "127.0.0.1" },
+        port: { type: "string", default: process.env.FREEAGENT_MCP_PORT || "3000" },
+        "read-only": { type: "boolean", default: false },
+        "dry-run": { type: "boolean", default: false },
+        config: { type: "string", default: process.env.FREEAGENT_CONFIG },
+      },
+      allowPositionals: true,
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+const { values: args, positionals } = parseCliArgs();
+
+function buildServerOptions(): ServerOptions {
+  try {
+    const options = resolveServerOptions(process.env, args.config);
+    return {
+      ...options,
+      readOnly: options.readOnly || args["read-only"],
+      dryRun: options.dryRun || args["dry-run"],
+      // HTTP clients must not read arbitrary files on the server's disk
+      noLocalFiles: args.transport === "http" && !options.uploadDir,
+    };
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
 
 function buildOAuthConfig(): OAuthConfig | null {
   if (FREEAGENT_CLIENT_ID && FREEAGENT_CLIENT_SECRET) {
@@ -37,8 +71,32 @@ function buildOAuthConfig(): OAuthConfig | null {
   return null;
 }
 
+function buildCache(): ResponseCache | undefined {
+  if (FREEAGENT_CACHE === "memory") return new ResponseCache();
+  if (FREEAGENT_CACHE === "disk") return new ResponseCache({ persist: true });
+  return undefined;
+}
+
+function buildClientOptions(serverOptions: ServerOptions): ClientOptions {
+  try {
+    const maxRetries = parseNonNegativeInt("FREEAGENT_MAX_RETRIES", FREEAGENT_MAX_RETRIES);
+    const rateLimit =
+      parseNonNegativeInt("FREEAGENT_RATE_LIMIT", FREEAGENT_RATE_LIMIT) ??
+      DEFAULT_REQUESTS_PER_MINUTE;
+    return {
+      cache: buildCache(),
+      retry: maxRetries !== undefined ? { maxRetries } : {},
+      rateLimiter: rateLimit > 0 ? new TokenBucket(rateLimit) : undefined,
+      readOnly: serverOptions.readOnly,
+    };
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 // Handle `npx freeagent-mcp-server auth` subcommand
-if (process.argv[2] === "auth") {
+if (positionals[0] === "auth") {
   const config = buildOAuthConfig();
   if (!config) {
     console.error(
@@ -60,12 +118,16 @@ if (process.argv[2] === "auth") {
 } else {
   // Normal server mode
   let client: FreeAgentClient;
+  const serverOptions = buildServerOptions();
+  const clientOptions = buildClientOptions(serverOptions);
+  const readOnly = serverOptions.readOnly;
 
   if (FREEAGENT_ACCESS_TOKEN) {
     // Legacy: direct access token
     client = new FreeAgentClient(
       FREEAGENT_ACCESS_TOKEN,
-      FREEAGENT_BASE_URL
+      FREEAGENT_BASE_URL,
+      clientOptions
     );
   } else {
     const config = buildOAuthConfig();
@@ -81,34 +143,49 @@ if (process.argv[2] === "auth") {
     const baseUrl = FREEAGENT_BASE_URL || getApiBase(config.sandbox);
     client = new FreeAgentClient(
       () => getValidAccessToken(config),
-      baseUrl
+      baseUrl,
+      clientOptions
     );
   }
 
-  const server = new McpServer({
-    name: "freeagent-mcp",
-    version: "1.0.0",
-  });
+  if (args.transport !== "stdio" && args.transport !== "http") {
+    console.error(`Unknown transport "${args.transport}". Use "stdio" or "http".`);
+    process.exit(1);
+  }
 
-  registerCompanyTools(server, client);
-  registerUserTools(server, client);
-  registerContactTools(server, client);
-  registerProjectTools(server, client);
-  registerTaskTools(server, client);
-  registerTimeslipTools(server, client);
-  registerInvoiceTools(server, client);
-  registerEstimateTools(server, client);
-  registerBillTools(server, client);
-  registerCreditNoteTools(server, client);
-  registerExpenseTools(server, client);
-  registerBankingTools(server, client);
-  registerCategoryTools(server, client);
-  registerAccountingTools(server, client);
+  function parsePort(): number {
+    try {
+      const port = parseNonNegativeInt("--port / FREEAGENT_MCP_PORT", args.port);
+      if (port === undefined || port > 65535) {
+        throw new Error(`--port / FREEAGENT_MCP_PORT must be between 0 and 65535, got "${args.port}"`);
+      }
+      return port;
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+  }
 
   async function main() {
+    if (args.transport === "http") {
+      const port = parsePort();
+      await startHttpServer({
+        host: args.host,
+        port,
+        authToken: FREEAGENT_MCP_HTTP_TOKEN,
+        createServer: () => createServer(client, serverOptions),
+      });
+      console.error(
+        `FreeAgent MCP Server listening on http://${args.host}:${port}/mcp` +
+          (readOnly ? " (read-only)" : "")
+      );
+      return;
+    }
+
+    const server = createServer(client, serverOptions);
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error("FreeAgent MCP Server running on stdio");
+    console.error(`FreeAgent MCP Server running on stdio${readOnly ? " (read-only)" : ""}`);
   }
 
   main().catch((error) => {
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TokenBucket, DEFAULT_REQUESTS_PER_MINUTE } from "./rate-limit.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TokenBucket", () => {
+  it("defaults to FreeAgent's per-minute quota", () => {
+    expect(DEFAULT_REQUESTS_PER_MINUTE).toBe(120);
+  });
+
+  it("lets a burst up to capacity through immediately", async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(60, 3);
+    let granted = 0;
+    for (let i = 0; i < 3; i++) bucket.take().then(() => granted++);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(3);
+  });
+
+  it("makes callers wait for tokens to refill once empty", async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(60, 1); // one token per second
+    let granted = 0;
+    for (let i = 0; i < 3; i++) bucket.take().then(() => granted++);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(3);
+  });
+});
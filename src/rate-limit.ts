@@ -0,0 +1,50 @@
+import { sleep } from "./utils.js";
+
+// FreeAgent allows 120 requests per minute per user
+export const DEFAULT_REQUESTS_PER_MINUTE = 120;
+
+/**
+ * Client-side token bucket shared by every request the server makes, so
+ * parallel tool calls queue up instead of tripping FreeAgent's 429 limit.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(requestsPerMinute: number = DEFAULT_REQUESTS_PER_MINUTE, capacity?: number) {
+    this.capacity = capacity ?? requestsPerMinute;
+    this.refillPerMs = requestsPerMinute / 60_000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // Resolves once a token is available. Waiters are served in FIFO order.
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.waitForToken());
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+}
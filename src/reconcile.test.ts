@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  descriptionTokens,
+  similarity,
+  suggestExplanations,
+  type MatchSources,
+} from "./reconcile.js";
+
+const api = "https://api.freeagent.com/v2";
+const txnUrl = `${api}/bank_transactions/1`;
+
+function sources(overrides: Partial<MatchSources> = {}): MatchSources {
+  return { invoices: [], bills: [], expenses: [], explanations: [], ...overrides };
+}
+
+describe("descriptionTokens / similarity", () => {
+  it("ignores digits, punctuation and case", () => {
+    const a = descriptionTokens("CARD 1234 TESCO-STORES 2041");
+    const b = descriptionTokens("Tesco Stores #88");
+    expect([...a]).toEqual(["card", "tesco", "stores"]);
+    expect(similarity(a, b)).toBeCloseTo(2 / 3);
+    expect(similarity(a, new Set())).toBe(0);
+  });
+});
+
+describe("suggestExplanations", () => {
+  it("ranks an invoice with matching amount and reference above an amount-only match", () => {
+    const [result] = suggestExplanations(
+      [{ url: txnUrl, dated_on: "2024-03-04", amount: "1200.0", description: "ACME LTD INV-042" }],
+      sources({
+        invoices: [
+          { url: `${api}/invoices/7`, reference: "INV-039", due_value: "1200.0" },
+          { url: `${api}/invoices/9`, reference: "INV-042", due_value: "1200.0", contact_name: "Acme Ltd" },
+        ],
+      })
+    );
+
+    expect(result.suggestions.map((s) => [s.match, s.confidence])).toEqual([
+      [`${api}/invoices/9`, 0.99],
+      [`${api}/invoices/7`, 0.6],
+    ]);
+    expect(result.suggestions[0].reason).toContain("description contains reference INV-042");
+    expect(result.suggestions[0].explanation).toEqual({
+      bank_transaction: txnUrl,
+      dated_on: "2024-03-04",
+      paid_invoice: `${api}/invoices/9`,
+      gross_value: "1200.00",
+    });
+  });
+
+  it("matches money out against open bills and nearby expenses", () => {
+    const [result] = suggestExplanations(
+      [{ url: txnUrl, dated_on: "2024-03-04", amount: "-45.0", description: "TRAINLINE" }],
+      sources({
+        bills: [{ url: `${api}/bills/3`, reference: "B-17", due_value: "45.0" }],
+        expenses: [
+          {
+            url: `${api}/expenses/5`,
+            dated_on: "2024-03-03",
+            gross_value: "-45.0",
+            user: `${api}/users/2`,
+            category: `${api}/categories/365`,
+            description: "Train to client",
+          },
+          { url: `${api}/expenses/6`, dated_on: "2024-02-01", gross_value: "-45.0", user: `${api}/users/2` },
+        ],
+      })
+    );
+
+    expect(result.suggestions.map((s) => s.type)).toEqual(["expense", "bill"]);
+    expect(result.suggestions[0].confidence).toBeCloseTo(0.74);
+    expect(result.suggestions[0].explanation).toMatchObject({
+      paid_user: `${api}/users/2`,
+      gross_value: "-45.00",
+    });
+    expect(result.suggestions[0].explanation).not.toHaveProperty("category");
+  });
+
+  it("learns categories from similar past explanations", () => {
+    const [result] = suggestExplanations(
+      [{ url: txnUrl, dated_on: "2024-03-04", amount: "-9.99", description: "GOOGLE WORKSPACE 0312" }],
+      sources({
+        explanations: [
+          { description: "GOOGLE WORKSPACE 0212", category: `${api}/categories/285` },
+          { description: "GOOGLE WORKSPACE 0112", category: `${api}/categories/285` },
+          { description: "Google workspace refund", category: `${api}/categories/001` },
+          { description: "AMAZON", category: `${api}/categories/366` },
+        ],
+      })
+    );
+
+    expect(result.suggestions.map((s) => s.match)).toEqual([
+      `${api}/categories/285`,
+      `${api}/categories/001`,
+    ]);
+    expect(result.suggestions[0].reason).toContain("2 of 3 similar past transaction(s)");
+  });
+
+  it("uses the unexplained amount and caps the number of suggestions", () => {
+    const [result] = suggestExplanations(
+      [{ url: txnUrl, dated_on: "2024-03-04", amount: "300.0", unexplained_amount: "100.0" }],
+      sources({
+        invoices: [1, 2, 3].map((n) => ({ url: `${api}/invoices/${n}`, due_value: "100.0" })),
+      }),
+      2
+    );
+    expect(result.amount).toBe("100.00");
+    expect(result.suggestions).toHaveLength(2);
+  });
+});
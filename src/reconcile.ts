@@ -0,0 +1,232 @@
+// Proposes explanations for unexplained bank transactions by matching them
+// against open invoices and bills, expense claims to repay, and the
+// categories previously used for similar descriptions.
+
+import { cents, daysBetween, money } from "./utils.js";
+
+export interface BankTransaction {
+  url: string;
+  dated_on: string;
+  amount: string;
+  unexplained_amount?: string;
+  description?: string;
+}
+
+export interface OpenDocument {
+  url: string;
+  reference?: string;
+  due_value?: string;
+  contact_name?: string;
+}
+
+export interface Expense {
+  url: string;
+  dated_on: string;
+  gross_value: string;
+  /** URL of the user who claimed the expense */
+  user?: string;
+  category?: string;
+  description?: string;
+}
+
+export interface PastExplanation {
+  description?: string;
+  category?: string;
+}
+
+export type SuggestionType = "invoice" | "bill" | "expense" | "category";
+
+export interface Suggestion {
+  type: SuggestionType;
+  /** URL of the matched invoice, bill, expense or category */
+  match: string;
+  confidence: number;
+  reason: string;
+  /** Arguments for freeagent_create_bank_transaction_explanation */
+  explanation: Record<string, string>;
+}
+
+export interface TransactionSuggestions {
+  bank_transaction: string;
+  dated_on: string;
+  amount: string;
+  description?: string;
+  suggestions: Suggestion[];
+}
+
+export interface MatchSources {
+  invoices: OpenDocument[];
+  bills: OpenDocument[];
+  expenses: Expense[];
+  explanations: PastExplanation[];
+}
+
+const EXPENSE_DATE_WINDOW_DAYS = 7;
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+function round(confidence: number): number {
+  return Math.round(Math.min(confidence, 0.99) * 100) / 100;
+}
+
+// Lowercased words with digits and punctuation removed, so "CARD 1234 TESCO
+// STORES 2041" and "TESCO STORES 88" compare as the same merchant
+export function descriptionTokens(description: string | undefined): Set<string> {
+  const words = (description ?? "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+  return new Set(words);
+}
+
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function containsReference(description: string | undefined, reference: string | undefined) {
+  if (!description || !reference) return false;
+  return description.toLowerCase().includes(reference.toLowerCase());
+}
+
+function matchDocuments(
+  txn: BankTransaction,
+  amount: number,
+  documents: OpenDocument[],
+  type: "invoice" | "bill"
+): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  for (const doc of documents) {
+    const sameAmount = cents(doc.due_value) === Math.abs(amount);
+    const hasReference = containsReference(txn.description, doc.reference);
+    if (!sameAmount && !hasReference) continue;
+
+    const reasons: string[] = [];
+    let confidence = 0;
+    if (sameAmount) {
+      confidence += 0.6;
+      reasons.push(`amount equals the ${doc.due_value} due`);
+    }
+    if (hasReference) {
+      confidence += 0.35;
+      reasons.push(`description contains reference ${doc.reference}`);
+    }
+    if (containsReference(txn.description, doc.contact_name)) {
+      confidence += 0.1;
+      reasons.push(`description names ${doc.contact_name}`);
+    }
+
+    const label = type === "invoice" ? "Open invoice" : "Open bill";
+    suggestions.push({
+      type,
+      match: doc.url,
+      confidence: round(confidence),
+      reason: `${label} ${doc.reference ?? doc.url}: ${reasons.join(", ")}`,
+      explanation: {
+        [type === "invoice" ? "paid_invoice" : "paid_bill"]: doc.url,
+        gross_value: money(amount),
+      },
+    });
+  }
+  return suggestions;
+}
+
+function matchExpenses(txn: BankTransaction, amount: number, expenses: Expense[]): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  for (const expense of expenses) {
+    if (Math.abs(cents(expense.gross_value)) !== Math.abs(amount)) continue;
+    const days = Math.abs(daysBetween(txn.dated_on, expense.dated_on));
+    if (days > EXPENSE_DATE_WINDOW_DAYS || !expense.user) continue;
+
+    // The claim already booked the cost, so the payment repays the claimant
+    // rather than being categorised again
+    suggestions.push({
+      type: "expense",
+      match: expense.url,
+      confidence: round(0.4 + 0.4 * (1 - days / EXPENSE_DATE_WINDOW_DAYS)),
+      reason:
+        `Expense of ${expense.gross_value} on ${expense.dated_on}` +
+        (expense.description ? ` (${expense.description})` : "") +
+        `; explain as repaying the claimant`,
+      explanation: {
+        paid_user: expense.user,
+        gross_value: money(amount),
+        ...(expense.description ? { description: expense.description } : {}),
+      },
+    });
+  }
+  return suggestions;
+}
+
+function matchCategory(
+  txn: BankTransaction,
+  amount: number,
+  explanations: PastExplanation[]
+): Suggestion[] {
+  const tokens = descriptionTokens(txn.description);
+  const votes = new Map<string, { count: number; best: number; example: string }>();
+  let matches = 0;
+
+  for (const past of explanations) {
+    if (!past.category) continue;
+    const score = similarity(tokens, descriptionTokens(past.description));
+    if (score < MIN_DESCRIPTION_SIMILARITY) continue;
+    matches++;
+    const vote = votes.get(past.category) ?? { count: 0, best: 0, example: "" };
+    vote.count++;
+    if (score > vote.best) {
+      vote.best = score;
+      vote.example = past.description ?? "";
+    }
+    votes.set(past.category, vote);
+  }
+
+  return [...votes.entries()].map(([category, vote]) => ({
+    type: "category" as const,
+    match: category,
+    confidence: round(0.8 * vote.best * (vote.count / matches)),
+    reason:
+      `${vote.count} of ${matches} similar past transaction(s) used this category, ` +
+      `e.g. "${vote.example}"`,
+    explanation: { category, gross_value: money(amount) },
+  }));
+}
+
+export function suggestExplanations(
+  transactions: BankTransaction[],
+  sources: MatchSources,
+  maxSuggestions = 3
+): TransactionSuggestions[] {
+  return transactions.map((txn) => {
+    const amount = cents(txn.unexplained_amount ?? txn.amount);
+    const suggestions =
+      amount > 0
+        ? [
+            ...matchDocuments(txn, amount, sources.invoices, "invoice"),
+            ...matchCategory(txn, amount, sources.explanations),
+          ]
+        : [
+            ...matchDocuments(txn, amount, sources.bills, "bill"),
+            ...matchExpenses(txn, amount, sources.expenses),
+            ...matchCategory(txn, amount, sources.explanations),
+          ];
+
+    suggestions.sort((a, b) => b.confidence - a.confidence);
+    for (const suggestion of suggestions) {
+      suggestion.explanation = {
+        bank_transaction: txn.url,
+        dated_on: txn.dated_on,
+        ...suggestion.explanation,
+      };
+    }
+    return {
+      bank_transaction: txn.url,
+      dated_on: txn.dated_on,
+      amount: money(amount),
+      description: txn.description,
+      suggestions: suggestions.slice(0, maxSuggestions),
+    };
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { projectRecurringInvoices } from "./recurrence.js";
+
+describe("projectRecurringInvoices", () => {
+  const api = "https://api.freeagent.com/v2";
+
+  it("projects monthly and weekly profiles within the range", () => {
+    const invoices = projectRecurringInvoices(
+      [
+        {
+          url: `${api}/recurring_invoices/1`,
+          frequency: "Monthly",
+          next_recurs_on: "2024-01-31",
+          total_value: "1000.0",
+          currency: "GBP",
+        },
+        {
+          url: `${api}/recurring_invoices/2`,
+          frequency: "Weekly",
+          next_recurs_on: "2024-02-20",
+          recurring_end_date: "2024-03-06",
+          total_value: "50.0",
+          currency: "USD",
+        },
+        { url: `${api}/recurring_invoices/3`, frequency: "Monthly" },
+      ],
+      "2024-02-01",
+      "2024-03-31"
+    );
+
+    expect(invoices.map((i) => [i.dated_on, i.recurring_invoice.split("/").pop()])).toEqual([
+      ["2024-02-20", "2"],
+      ["2024-02-27", "2"],
+      ["2024-02-29", "1"],
+      ["2024-03-05", "2"],
+      ["2024-03-31", "1"],
+    ]);
+  });
+
+  it("gives up on projections that would run for too long", () => {
+    expect(() =>
+      projectRecurringInvoices(
+        [{ url: `${api}/recurring_invoices/1`, reference: "R1", frequency: "Weekly", next_recurs_on: "2024-01-01" }],
+        "2024-01-01",
+        "2199-12-31"
+      )
+    ).toThrow("R1 recurs more than 5000 times before 2199-12-31");
+  });
+});
@@ -0,0 +1,96 @@
+// Projects the invoices recurring profiles will raise, stepping from each
+// profile's next date by its FreeAgent frequency.
+
+import { addDays } from "./utils.js";
+
+// FreeAgent frequency -> step between invoices
+const FREQUENCY_STEPS: Record<string, { days?: number; months?: number }> = {
+  Weekly: { days: 7 },
+  "Two Weekly": { days: 14 },
+  "Four Weekly": { days: 28 },
+  Monthly: { months: 1 },
+  "Two Monthly": { months: 2 },
+  Quarterly: { months: 3 },
+  Biannually: { months: 6 },
+  Annually: { months: 12 },
+  "2-Yearly": { months: 24 },
+};
+
+// Occurrences stepped through per profile before giving up, which bounds the
+// work for long ranges or profiles that started long ago (about 96 years weekly)
+export const MAX_RECURRENCE_STEPS = 5000;
+
+export interface RecurringInvoice {
+  url: string;
+  reference?: string;
+  contact_name?: string;
+  frequency: string;
+  next_recurs_on?: string;
+  recurring_end_date?: string;
+  total_value?: string;
+  currency?: string;
+}
+
+export interface ProjectedInvoice {
+  dated_on: string;
+  recurring_invoice: string;
+  reference?: string;
+  contact_name?: string;
+  total_value: string;
+  currency?: string;
+}
+
+// Steps `n` intervals from `start`. Month steps keep its day of month where
+// the target month is long enough (31 Jan -> 29 Feb -> 31 Mar)
+function addInterval(start: string, step: { days?: number; months?: number }, n: number): string {
+  if (step.days) return addDays(start, step.days * n);
+  const date = new Date(`${start}T00:00:00Z`);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + step.months! * n, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Lists the invoices each recurring profile will raise between `from` and
+ * `to` (inclusive), starting at its next_recurs_on and stopping at its end date.
+ */
+export function projectRecurringInvoices(
+  profiles: RecurringInvoice[],
+  from: string,
+  to: string
+): ProjectedInvoice[] {
+  const projected: ProjectedInvoice[] = [];
+  for (const profile of profiles) {
+    const step = FREQUENCY_STEPS[profile.frequency];
+    if (!step || !profile.next_recurs_on) continue;
+    const last =
+      profile.recurring_end_date && profile.recurring_end_date < to
+        ? profile.recurring_end_date
+        : to;
+
+    for (let n = 0; ; n++) {
+      if (n >= MAX_RECURRENCE_STEPS) {
+        throw new Error(
+          `${profile.reference ?? profile.url} recurs more than ${MAX_RECURRENCE_STEPS} times ` +
+            `before ${last}; use a shorter date range`
+        );
+      }
+      const dated_on = addInterval(profile.next_recurs_on, step, n);
+      if (dated_on > last) break;
+      if (dated_on < from) continue;
+      projected.push({
+        dated_on,
+        recurring_invoice: profile.url,
+        reference: profile.reference,
+        contact_name: profile.contact_name,
+        total_value: profile.total_value ?? "0",
+        currency: profile.currency,
+      });
+    }
+  }
+  return projected.sort((a, b) => a.dated_on.localeCompare(b.dated_on));
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { createServer, isToolEnabled, TOOL_MODULES } from "./server.js";
+import { FreeAgentClient } from "./client.js";
+import { isMutatingTool } from "./tool-filter.js";
+
+function toolNames(server: ReturnType<typeof createServer>): string[] {
+  return Object.keys((server as any)._registeredTools);
+}
+
+describe("createServer", () => {
+  const client = new FreeAgentClient("token");
+
+  it("registers every tool by default", () => {
+    const names = toolNames(createServer(client));
+    expect(names).toContain("freeagent_list_invoices");
+    expect(names).toContain("freeagent_delete_invoice");
+    expect(names).toContain("freeagent_start_timer");
+  });
+
+  it("registers no mutating tools in read-only mode", () => {
+    const all = toolNames(createServer(client));
+    const readOnly = toolNames(createServer(client, { readOnly: true }));
+
+    expect(readOnly).toContain("freeagent_list_invoices");
+    expect(readOnly).toContain("freeagent_get_company");
+    expect(readOnly.filter(isMutatingTool)).toEqual([]);
+    expect(readOnly).toEqual(all.filter((name) => !isMutatingTool(name)));
+  });
+});
+
+describe("createServer - tool selection", () => {
+  const client = new FreeAgentClient("token");
+
+  it("registers only the enabled modules", () => {
+    const names = toolNames(
+      createServer(client, { modules: ["users", "projects", "tasks", "timeslips"] })
+    );
+    expect(names).toContain("freeagent_list_timeslips");
+    expect(names).toContain("freeagent_get_current_user");
+    expect(names).not.toContain("freeagent_list_invoices");
+    expect(names).not.toContain("freeagent_list_bank_accounts");
+  });
+
+  it("applies include and exclude globs", () => {
+    const names = toolNames(
+      createServer(client, {
+        include: ["freeagent_*_invoice*"],
+        exclude: ["freeagent_delete_*", "freeagent_send_*"],
+      })
+    );
+    expect(names).toContain("freeagent_list_invoices");
+    expect(names).toContain("freeagent_create_invoice");
+    expect(names).not.toContain("freeagent_delete_invoice");
+    expect(names).not.toContain("freeagent_send_invoice_email");
+    expect(names).not.toContain("freeagent_list_contacts");
+  });
+
+  it("exposes every tools file as a module", () => {
+    expect(Object.keys(TOOL_MODULES)).toHaveLength(19);
+  });
+});
+
+describe("isToolEnabled", () => {
+  it("lets exclude win over include", () => {
+    expect(
+      isToolEnabled("freeagent_delete_bill", { include: ["freeagent_*"], exclude: ["*_delete_*"] })
+    ).toBe(false);
+  });
+
+  it("enables everything with no options", () => {
+    expect(isToolEnabled("freeagent_delete_bill", {})).toBe(true);
+  });
+});
+
+describe("createServer - dry run", () => {
+  it("adds dry_run to write tools only", () => {
+    const tools = (createServer(new FreeAgentClient("token")) as any)._registeredTools;
+    const shape = (name: string) => tools[name].inputSchema.shape;
+
+    expect(shape("freeagent_update_invoice")).toHaveProperty("dry_run");
+    expect(shape("freeagent_stop_timer")).toHaveProperty("dry_run");
+    expect(shape("freeagent_list_invoices")).not.toHaveProperty("dry_run");
+  });
+});
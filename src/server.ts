@@ -0,0 +1,87 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FreeAgentClient } from "./client.js";
+import { registerCompanyTools } from "./tools/company.js";
+import { registerUserTools } from "./tools/users.js";
+import { registerContactTools } from "./tools/contacts.js";
+import { registerProjectTools } from "./tools/projects.js";
+import { registerTaskTools } from "./tools/tasks.js";
+import { registerTimeslipTools } from "./tools/timeslips.js";
+import { registerInvoiceTools } from "./tools/invoices.js";
+import { registerRecurringInvoiceTools } from "./tools/recurring-invoices.js";
+import { registerEstimateTools } from "./tools/estimates.js";
+import { registerBillTools } from "./tools/bills.js";
+import { registerCreditNoteTools } from "./tools/credit-notes.js";
+import { registerExpenseTools } from "./tools/expenses.js";
+import { registerBankingTools } from "./tools/banking.js";
+import { registerCategoryTools } from "./tools/categories.js";
+import { registerAccountingTools } from "./tools/accounting.js";
+import { registerVatReturnTools } from "./tools/vat-returns.js";
+import { registerTaxReturnTools } from "./tools/tax-returns.js";
+import { registerPayrollTools } from "./tools/payroll.js";
+import { registerAttachmentTools } from "./tools/attachments.js";
+import { filterTools, isMutatingTool, matchesAny } from "./tool-filter.js";
+import { withDryRun } from "./dry-run.js";
+import type { FileOptions } from "./utils.js";
+
+type RegisterFn = (server: McpServer, client: FreeAgentClient, options: ServerOptions) => void;
+
+// Module name -> register function. Names match the files in src/tools.
+export const TOOL_MODULES: Record<string, RegisterFn> = {
+  company: registerCompanyTools,
+  users: registerUserTools,
+  contacts: registerContactTools,
+  projects: registerProjectTools,
+  tasks: registerTaskTools,
+  timeslips: registerTimeslipTools,
+  invoices: registerInvoiceTools,
+  "recurring-invoices": registerRecurringInvoiceTools,
+  estimates: registerEstimateTools,
+  bills: registerBillTools,
+  "credit-notes": registerCreditNoteTools,
+  expenses: registerExpenseTools,
+  banking: registerBankingTools,
+  categories: registerCategoryTools,
+  accounting: registerAccountingTools,
+  "vat-returns": registerVatReturnTools,
+  "tax-returns": registerTaxReturnTools,
+  payroll: registerPayrollTools,
+  attachments: registerAttachmentTools,
+};
+
+export interface ServerOptions extends FileOptions {
+  /** Skip registering every tool that writes to FreeAgent */
+  readOnly?: boolean;
+  /** Modules to register; all modules when omitted */
+  modules?: string[];
+  /** Tool name globs; when set, only matching tools are registered */
+  include?: string[];
+  /** Tool name globs that are never registered */
+  exclude?: string[];
+  /** Run every write tool in dry-run mode */
+  dryRun?: boolean;
+}
+
+export function isToolEnabled(name: string, options: ServerOptions): boolean {
+  if (options.readOnly && isMutatingTool(name)) return false;
+  if (options.include?.length && !matchesAny(name, options.include)) return false;
+  if (options.exclude?.length && matchesAny(name, options.exclude)) return false;
+  return true;
+}
+
+export function createServer(client: FreeAgentClient, options: ServerOptions = {}): McpServer {
+  const mcpServer = new McpServer({
+    name: "freeagent-mcp",
+    version: "1.0.0",
+  });
+  const server = filterTools(
+    withDryRun(mcpServer, isMutatingTool, options.dryRun),
+    (name) => isToolEnabled(name, options)
+  );
+
+  for (const [module, register] of Object.entries(TOOL_MODULES)) {
+    if (options.modules && !options.modules.includes(module)) continue;
+    register(server, client, options);
+  }
+
+  return mcpServer;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectFormat,
+  findDuplicates,
+  normaliseAmount,
+  parseCsvRows,
+  parseDate,
+  parseStatement,
+  StatementParseError,
+} from "./statements.js";
+
+describe("parseCsvRows", () => {
+  it("handles quoted fields, escaped quotes and CRLF line endings", () => {
+    const text = 'Date,Description\r\n01/02/2024,"Smith, J ""rent"""\r\n\r\n';
+    expect(parseCsvRows(text)).toEqual([
+      ["Date", "Description"],
+      ["01/02/2024", 'Smith, J "rent"'],
+    ]);
+  });
+});
+
+describe("parseDate", () => {
+  it.each([
+    ["31/01/2024", "DD/MM/YYYY", "2024-01-31"],
+    ["01/31/2024", "MM/DD/YYYY", "2024-01-31"],
+    ["2024-01-31", "YYYY-MM-DD", "2024-01-31"],
+    ["1/2'24", "MM/DD'YY", "2024-01-02"],
+    ["20240131", "YYYYMMDD", "2024-01-31"],
+  ])("parses %s with %s", (value, format, expected) => {
+    expect(parseDate(value, format)).toBe(expected);
+  });
+
+  it("rejects dates that do not match or do not exist", () => {
+    expect(() => parseDate("2024-01-31", "DD/MM/YYYY")).toThrow(StatementParseError);
+    expect(() => parseDate("31/02/2024", "DD/MM/YYYY")).toThrow("not a valid date");
+  });
+});
+
+describe("normaliseAmount", () => {
+  it.each([
+    ["£1,234.50", "1234.50"],
+    ["-5", "-5.00"],
+    ["(12.00)", "-12.00"],
+    ["12.00 DR", "-12.00"],
+    ["12.00 CR", "12.00"],
+    ["7.5-", "-7.50"],
+    ["+3.10", "3.10"],
+  ])("normalises %s", (value, expected) => {
+    expect(normaliseAmount(value)).toBe(expected);
+  });
+
+  it("rejects text that is not an amount", () => {
+    expect(() => normaliseAmount("n/a")).toThrow('Could not parse amount "n/a"');
+  });
+});
+
+describe("parseStatement", () => {
+  it("parses CSV with the default columns", () => {
+    const csv = "Date,Description,Amount\n02/01/2024,Coffee,-3.20\n03/01/2024,Client,500\n";
+    expect(parseStatement(csv, { format: "csv" })).toEqual([
+      { dated_on: "2024-01-02", description: "Coffee", amount: "-3.20" },
+      { dated_on: "2024-01-03", description: "Client", amount: "500.00" },
+    ]);
+  });
+
+  it("parses CSV with debit/credit columns by index and no header", () => {
+    const csv = "2024-01-02,Coffee,3.20,\n2024-01-03,Client,,500.00\n";
+    const result = parseStatement(csv, {
+      format: "csv",
+      hasHeader: false,
+      dateFormat: "YYYY-MM-DD",
+      columns: { date: 0, description: 1, debit: 2, credit: 3 },
+    });
+    expect(result.map((t) => t.amount)).toEqual(["-3.20", "500.00"]);
+  });
+
+  it("reports the line and available columns on CSV errors", () => {
+    expect(() =>
+      parseStatement("Date,Details,Amount\n", {
+        format: "csv",
+        columns: { date: "Date", description: "Memo", amount: "Amount" },
+      })
+    ).toThrow("Available columns: Date, Details, Amount");
+    expect(() =>
+      parseStatement("Date,Description,Amount\n02/01/2024,Coffee,abc\n", { format: "csv" })
+    ).toThrow(/^Line 2: Could not parse amount/);
+  });
+
+  it("parses OFX with unclosed SGML tags", () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240105120000[0:GMT]<TRNAMT>-42.10<FITID>abc1<NAME>TESCO<MEMO>Groceries
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240106<TRNAMT>100.00<FITID>abc2<NAME>ACME LTD
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    expect(parseStatement(ofx, { format: "ofx" })).toEqual([
+      { dated_on: "2024-01-05", description: "TESCO - Groceries", amount: "-42.10", fitid: "abc1" },
+      { dated_on: "2024-01-06", description: "ACME LTD", amount: "100.00", fitid: "abc2" },
+    ]);
+  });
+
+  it("parses QIF records", () => {
+    const qif = "!Type:Bank\nD01/05/2024\nT-1,250.00\nPLandlord\nMRent\n^\nD01/06/2024\nU80.00\nPRefund\n^\n";
+    expect(parseStatement(qif, { format: "qif", dateFormat: "MM/DD/YYYY" })).toEqual([
+      { dated_on: "2024-01-05", description: "Landlord - Rent", amount: "-1250.00" },
+      { dated_on: "2024-01-06", description: "Refund", amount: "80.00" },
+    ]);
+  });
+
+  it("flips amounts for the inverted sign convention", () => {
+    const csv = "Date,Description,Amount\n02/01/2024,Card purchase,19.99\n03/01/2024,Payment,-50\n";
+    const result = parseStatement(csv, { format: "csv", sign: "inverted" });
+    expect(result.map((t) => t.amount)).toEqual(["-19.99", "50.00"]);
+  });
+});
+
+describe("detectFormat", () => {
+  it("uses the file extension", () => {
+    expect(detectFormat("/tmp/March.OFX")).toBe("ofx");
+    expect(() => detectFormat("/tmp/statement.txt")).toThrow("Pass format");
+  });
+});
+
+describe("findDuplicates", () => {
+  it("matches on date and amount, consuming each existing transaction once", () => {
+    const coffee = { dated_on: "2024-01-02", description: "Coffee", amount: "-3.20" };
+    const { unique, duplicates } = findDuplicates(
+      [coffee, { ...coffee }, { dated_on: "2024-01-03", description: "Client", amount: "500.00" }],
+      [{ dated_on: "2024-01-02", amount: "-3.2" }]
+    );
+    expect(duplicates).toEqual([coffee]);
+    expect(unique.map((t) => t.description)).toEqual(["Coffee", "Client"]);
+  });
+});
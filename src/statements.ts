@@ -0,0 +1,359 @@
+import { extname } from "node:path";
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+/**
+ * "standard": negative amounts are money out (most bank exports).
+ * "inverted": positive amounts are money out (common for credit card exports).
+ */
+export type SignConvention = "standard" | "inverted";
+
+/** A transaction in the shape FreeAgent's statement upload accepts */
+export interface StatementTransaction {
+  dated_on: string;
+  description: string;
+  amount: string;
+  fitid?: string;
+}
+
+/** CSV columns, by header name or 0-based index */
+export interface CsvColumnMapping {
+  date: string | number;
+  description: string | number;
+  /** Single signed amount column */
+  amount?: string | number;
+  /** Separate money-out / money-in columns, used when there is no amount column */
+  debit?: string | number;
+  credit?: string | number;
+}
+
+export interface StatementParseOptions {
+  format: StatementFormat;
+  columns?: CsvColumnMapping;
+  /** Tokens YYYY, YY, MM and DD with any separators, e.g. "DD/MM/YYYY" */
+  dateFormat?: string;
+  sign?: SignConvention;
+  /** Whether the first CSV row is a header row (default true) */
+  hasHeader?: boolean;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line !== undefined ? `Line ${line}: ${message}` : message);
+    this.name = "StatementParseError";
+  }
+}
+
+export const DEFAULT_DATE_FORMAT = "DD/MM/YYYY";
+
+const DEFAULT_CSV_COLUMNS: CsvColumnMapping = {
+  date: "Date",
+  description: "Description",
+  amount: "Amount",
+};
+
+export function detectFormat(path: string): StatementFormat {
+  const ext = extname(path).slice(1).toLowerCase();
+  if (ext === "csv" || ext === "ofx" || ext === "qif") return ext;
+  throw new StatementParseError(
+    `Cannot tell the statement format from "${path}". Pass format: csv, ofx or qif`
+  );
+}
+
+// Splits CSV text into rows, honouring quoted fields with embedded commas,
+// doubled quotes and newlines
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+export function parseDate(value: string, format: string = DEFAULT_DATE_FORMAT): string {
+  const order: string[] = [];
+  const pattern = format.replace(/YYYY|YY|MM|DD|[.*+?^${}()|[\]\\]/g, (token) => {
+    if (token === "YYYY") {
+      order.push("year");
+      return "(\\d{4})";
+    }
+    if (token === "YY" || token === "MM" || token === "DD") {
+      order.push(token === "YY" ? "shortYear" : token === "MM" ? "month" : "day");
+      return token === "YY" ? "(\\d{2})" : "(\\d{1,2})";
+    }
+    return `\\${token}`;
+  });
+  const match = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    throw new StatementParseError(`Could not parse date "${value}" with format ${format}`);
+  }
+
+  const parts: Record<string, number> = {};
+  order.forEach((name, index) => {
+    parts[name] = Number(match[index + 1]);
+  });
+  const year = parts.year ?? 2000 + (parts.shortYear ?? NaN);
+  const { month, day } = parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new StatementParseError(`"${value}" is not a valid date for format ${format}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Normalises bank-export amounts such as "£1,234.50", "(12.00)", "12.00 DR"
+ * or "-5" to a plain two-decimal string.
+ */
+export function normaliseAmount(value: string): string {
+  let text = value.trim();
+  let negative = false;
+
+  const suffix = text.match(/\s*(CR|DR)$/i);
+  if (suffix) {
+    negative = suffix[1].toUpperCase() === "DR";
+    text = text.slice(0, -suffix[0].length);
+  }
+  if (/^\(.*\)$/.test(text)) {
+    negative = !negative;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/[\s,£$€]/g, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text) && !/^\.\d+$/.test(text)) {
+    throw new StatementParseError(`Could not parse amount "${value}"`);
+  }
+  const cents = Math.round(Number(text) * 100);
+  return ((negative && cents !== 0 ? -cents : cents) / 100).toFixed(2);
+}
+
+function withLine<T>(line: number, fn: () => T): T {
+  try {
+    return fn();
+  } catch (err) {
+    if (err instanceof StatementParseError) throw new StatementParseError(err.message, line);
+    throw err;
+  }
+}
+
+function columnIndex(header: string[] | undefined, column: string | number): number {
+  if (typeof column === "number") return column;
+  if (!header) {
+    throw new StatementParseError(
+      `Column "${column}" is referenced by name but the file has no header row`
+    );
+  }
+  const index = header.findIndex((name) => name.trim().toLowerCase() === column.toLowerCase());
+  if (index === -1) {
+    throw new StatementParseError(
+      `Column "${column}" not found. Available columns: ${header.map((h) => h.trim()).join(", ")}`
+    );
+  }
+  return index;
+}
+
+export function parseCsvStatement(
+  text: string,
+  columns: CsvColumnMapping = DEFAULT_CSV_COLUMNS,
+  dateFormat: string = DEFAULT_DATE_FORMAT,
+  hasHeader = true
+): StatementTransaction[] {
+  const rows = parseCsvRows(text);
+  const header = hasHeader ? rows.shift() : undefined;
+
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    throw new StatementParseError("Column mapping needs amount, or debit and/or credit");
+  }
+  const dateCol = columnIndex(header, columns.date);
+  const descriptionCol = columnIndex(header, columns.description);
+  const amountCol = columns.amount !== undefined ? columnIndex(header, columns.amount) : undefined;
+  const debitCol = columns.debit !== undefined ? columnIndex(header, columns.debit) : undefined;
+  const creditCol = columns.credit !== undefined ? columnIndex(header, columns.credit) : undefined;
+  const firstLine = hasHeader ? 2 : 1;
+
+  return rows.map((row, i) =>
+    withLine(firstLine + i, () => {
+      const cell = (index: number | undefined) => (index === undefined ? "" : row[index] ?? "").trim();
+      let amount: string;
+      if (amountCol !== undefined) {
+        amount = normaliseAmount(cell(amountCol));
+      } else {
+        const cents = (index: number | undefined) =>
+          cell(index) ? Math.abs(Math.round(Number(normaliseAmount(cell(index))) * 100)) : 0;
+        amount = ((cents(creditCol) - cents(debitCol)) / 100).toFixed(2);
+      }
+      return {
+        dated_on: parseDate(cell(dateCol), dateFormat),
+        description: cell(descriptionCol),
+        amount,
+      };
+    })
+  );
+}
+
+// OFX 1.x is SGML where leaf elements often have no closing tag, so read each
+// value up to the next tag or line end
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : undefined;
+}
+
+export function parseOfxStatement(text: string): StatementTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  return blocks.map((block, i) =>
+    withLine(i + 1, () => {
+      const posted = ofxValue(block, "DTPOSTED");
+      const amount = ofxValue(block, "TRNAMT");
+      if (!posted || !amount) {
+        throw new StatementParseError("OFX transaction is missing DTPOSTED or TRNAMT");
+      }
+      const name = ofxValue(block, "NAME");
+      const memo = ofxValue(block, "MEMO");
+      const transaction: StatementTransaction = {
+        dated_on: parseDate(posted.slice(0, 8), "YYYYMMDD"),
+        description: [name, memo].filter(Boolean).join(" - "),
+        amount: normaliseAmount(amount),
+      };
+      const fitid = ofxValue(block, "FITID");
+      if (fitid) transaction.fitid = fitid;
+      return transaction;
+    })
+  );
+}
+
+export function parseQifStatement(
+  text: string,
+  dateFormat: string = DEFAULT_DATE_FORMAT
+): StatementTransaction[] {
+  const transactions: StatementTransaction[] = [];
+  let record: Record<string, string> = {};
+  let recordStart = 1;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) return;
+    if (line === "^") {
+      if (Object.keys(record).length > 0) {
+        const { D, T, U, P, M } = record;
+        transactions.push(
+          withLine(recordStart, () => {
+            if (!D || !(T ?? U)) {
+              throw new StatementParseError("QIF record is missing a date (D) or amount (T)");
+            }
+            return {
+              dated_on: parseDate(D, dateFormat),
+              description: [P, M].filter(Boolean).join(" - "),
+              amount: normaliseAmount(T ?? U),
+            };
+          })
+        );
+      }
+      record = {};
+      recordStart = i + 2;
+      return;
+    }
+    if (Object.keys(record).length === 0) recordStart = i + 1;
+    record[line[0]] = line.slice(1).trim();
+  });
+
+  return transactions;
+}
+
+export function parseStatement(
+  text: string,
+  options: StatementParseOptions
+): StatementTransaction[] {
+  let transactions: StatementTransaction[];
+  switch (options.format) {
+    case "csv":
+      transactions = parseCsvStatement(text, options.columns, options.dateFormat, options.hasHeader);
+      break;
+    case "ofx":
+      transactions = parseOfxStatement(text);
+      break;
+    case "qif":
+      transactions = parseQifStatement(text, options.dateFormat);
+      break;
+  }
+  if (options.sign === "inverted") {
+    transactions = transactions.map((t) => ({ ...t, amount: (-Number(t.amount)).toFixed(2) }));
+  }
+  return transactions;
+}
+
+export interface ExistingTransaction {
+  dated_on: string;
+  amount: string | number;
+}
+
+/**
+ * Splits parsed transactions into new ones and ones already in FreeAgent,
+ * matching on date and amount. Each existing transaction can only match once,
+ * so two genuine identical payments on the same day are not both dropped.
+ */
+export function findDuplicates(
+  parsed: StatementTransaction[],
+  existing: ExistingTransaction[]
+): { unique: StatementTransaction[]; duplicates: StatementTransaction[] } {
+  const key = (t: ExistingTransaction) => `${t.dated_on}|${Math.round(Number(t.amount) * 100)}`;
+  const remaining = new Map<string, number>();
+  for (const t of existing) remaining.set(key(t), (remaining.get(key(t)) ?? 0) + 1);
+
+  const unique: StatementTransaction[] = [];
+  const duplicates: StatementTransaction[] = [];
+  for (const t of parsed) {
+    const count = remaining.get(key(t)) ?? 0;
+    if (count > 0) {
+      remaining.set(key(t), count - 1);
+      duplicates.push(t);
+    } else {
+      unique.push(t);
+    }
+  }
+  return { unique, duplicates };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { globToRegExp, matchesAny, isMutatingTool, filterTools } from "./tool-filter.js";
+
+describe("globToRegExp", () => {
+  it("matches * and ? wildcards against the whole name", () => {
+    expect(globToRegExp("freeagent_list_*").test("freeagent_list_invoices")).toBe(true);
+    expect(globToRegExp("freeagent_list_*").test("x_freeagent_list_invoices")).toBe(false);
+    expect(globToRegExp("freeagent_get_us?r").test("freeagent_get_user")).toBe(true);
+  });
+
+  it("treats other regex characters literally", () => {
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+    expect(globToRegExp("a.b").test("a.b")).toBe(true);
+  });
+});
+
+describe("matchesAny", () => {
+  it("returns true when any pattern matches", () => {
+    expect(matchesAny("freeagent_get_company", ["freeagent_list_*", "*_company"])).toBe(true);
+    expect(matchesAny("freeagent_get_company", [])).toBe(false);
+  });
+});
+
+describe("isMutatingTool", () => {
+  it.each([
+    "freeagent_create_invoice",
+    "freeagent_update_contact",
+    "freeagent_delete_bill",
+    "freeagent_mark_invoice_as_sent",
+    "freeagent_send_invoice_email",
+    "freeagent_record_invoice_payment",
+    "freeagent_upload_bank_statement",
+    "freeagent_convert_estimate_to_invoice",
+    "freeagent_invoice_unbilled_time",
+    "freeagent_set_invoice_recurrence",
+    "freeagent_allocate_credit_note",
+    "freeagent_start_timer",
+    "freeagent_stop_timer",
+  ])("flags %s", (name) => {
+    expect(isMutatingTool(name)).toBe(true);
+  });
+
+  it.each(["freeagent_list_invoices", "freeagent_get_company", "freeagent_get_trial_balance"])(
+    "allows %s",
+    (name) => {
+      expect(isMutatingTool(name)).toBe(false);
+    }
+  );
+});
+
+describe("filterTools", () => {
+  it("skips registrations rejected by the predicate", () => {
+    const server = { tool: vi.fn(), registerTool: vi.fn(), name: "srv" } as any;
+    const filtered = filterTools(server, (name) => name.startsWith("keep"));
+
+    filtered.tool("keep_a", "desc", {}, () => {});
+    filtered.tool("drop_b", "desc", {}, () => {});
+    filtered.registerTool("keep_c", {}, () => {});
+    filtered.registerTool("drop_d", {}, () => {});
+
+    expect(server.tool).toHaveBeenCalledTimes(1);
+    expect(server.tool.mock.calls[0][0]).toBe("keep_a");
+    expect(server.registerTool).toHaveBeenCalledTimes(1);
+    expect(server.registerTool.mock.calls[0][0]).toBe("keep_c");
+    expect(filtered.name).toBe("srv");
+  });
+});
@@ -0,0 +1,58 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Tools that create, change or delete data in FreeAgent, or act on it
+// externally (emails, timers). Hidden in read-only mode.
+export const MUTATING_TOOL_PATTERNS = [
+  "freeagent_create_*",
+  "freeagent_update_*",
+  "freeagent_delete_*",
+  "freeagent_mark_*",
+  "freeagent_send_*",
+  "freeagent_record_*",
+  "freeagent_upload_*",
+  "freeagent_convert_*",
+  "freeagent_set_*",
+  "freeagent_allocate_*",
+  "freeagent_start_timer",
+  "freeagent_stop_timer",
+  "freeagent_invoice_unbilled_time",
+];
+
+// Converts a glob with `*` and `?` wildcards into an anchored RegExp
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
+
+export function isMutatingTool(name: string): boolean {
+  return matchesAny(name, MUTATING_TOOL_PATTERNS);
+}
+
+/**
+ * Wraps an McpServer so `tool()` and `registerTool()` calls for names that
+ * fail `include` are silently skipped. Register functions stay unaware of
+ * filtering and keep calling the server as usual.
+ */
+export function filterTools(server: McpServer, include: (name: string) => boolean): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (prop !== "tool" && prop !== "registerTool") return value;
+      return (name: string, ...rest: unknown[]) => {
+        if (!include(name)) return undefined;
+        return (value as (...args: unknown[]) => unknown).call(target, name, ...rest);
+      };
+    },
+  });
+}
@@ -1,7 +1,126 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  listAll,
+  addDays,
+  cents,
+  money,
+} from "../utils.js";
+import { ageDocuments, type OutstandingDocument } from "../ageing.js";
+import {
+  expectedCashFlows,
+  forecastBalances,
+  type ForecastBill,
+  type ForecastInvoice,
+  type ForecastRecurringInvoice,
+  type TaxTimelineItem,
+} from "../forecast.js";
+
+interface BankAccount {
+  url: string;
+  name?: string;
+  currency?: string;
+  current_balance?: string;
+}
+
+// Pages through open and overdue invoices or bills and ages today's balances
+// as at a date. FreeAgent only lists what is open now, so this is not a
+// historic report: documents paid since the date are missing.
+async function agedReport(
+  client: FreeAgentClient,
+  kind: "invoices" | "bills",
+  asAtDate: string | undefined,
+  convertToNative: boolean | undefined
+) {
+  const today = new Date().toISOString().slice(0, 10);
+  const asAt = asAtDate ?? today;
+  const warnings: string[] = [];
+  if (asAt < today) {
+    warnings.push(
+      `Amounts are balances still outstanding today, aged as at ${asAt}; ${kind} paid since then are not included`
+    );
+  }
+  const items = await listAll<OutstandingDocument>(client, `/${kind}`, kind, { view: "open_or_overdue" }, warnings);
+  let nativeCurrency: string | undefined;
+  if (convertToNative) {
+    const { company } = await client.get<{ company: { currency?: string } }>("/company");
+    nativeCurrency = company.currency;
+  }
+  const report = ageDocuments(items, asAt, nativeCurrency);
+  report.warnings.push(...warnings);
+  return report;
+}
+
+const agedReportSchema = {
+  as_at_date: z
+    .string()
+    .optional()
+    .describe("Date to measure how overdue today's outstanding amounts are, in YYYY-MM-DD format. Defaults to today. This does not reconstruct past balances: documents paid since are left out"),
+  convert_to_native: z
+    .boolean()
+    .optional()
+    .describe("Also total everything in the company's native currency using each document's exchange rate"),
+};
+
+const amountSchema = (field: string) =>
+  z
+    .string()
+    .regex(/^\d+(\.\d{1,2})?$/, `${field} must be a positive amount, e.g. "250.00"`);
+
+export const journalEntrySchema = z.object({
+  category: z.string().describe("Category URL to post to"),
+  debit: amountSchema("debit").optional().describe("Amount to debit. Give either debit or credit"),
+  credit: amountSchema("credit").optional().describe("Amount to credit. Give either debit or credit"),
+  description: z.string().describe("Description of the entry"),
+  user: z.string().optional().describe("User URL, for categories tracked per user such as director's loan"),
+  project: z.string().optional().describe("Project URL to allocate the entry to"),
+});
+
+export type JournalEntryInput = z.infer<typeof journalEntrySchema>;
+
+/**
+ * Converts debit/credit entries to FreeAgent journal entries, where
+ * debit_value is positive for a debit and negative for a credit. Throws
+ * unless every entry has exactly one side and the debits equal the credits.
+ */
+export function journalEntries(entries: JournalEntryInput[]): Record<string, unknown>[] {
+  if (entries.length < 2) throw new Error("A journal set needs at least two entries");
+
+  let debits = 0;
+  let credits = 0;
+  const converted = entries.map((entry, i) => {
+    if ((entry.debit === undefined) === (entry.credit === undefined)) {
+      throw new Error(`Entry ${i + 1} must have exactly one of debit or credit`);
+    }
+    const amount = cents(entry.debit ?? entry.credit);
+    if (amount === 0) throw new Error(`Entry ${i + 1} has a zero amount`);
+    if (entry.debit !== undefined) debits += amount;
+    else credits += amount;
+
+    const journalEntry: Record<string, unknown> = {
+      category: entry.category,
+      debit_value: money(entry.debit !== undefined ? amount : -amount),
+      description: entry.description,
+    };
+    if (entry.user !== undefined) journalEntry.user = entry.user;
+    if (entry.project !== undefined) journalEntry.project = entry.project;
+    return journalEntry;
+  });
+
+  if (debits !== credits) {
+    throw new Error(
+      `Journal does not balance: debits total ${money(debits)} but credits total ${money(credits)}`
+    );
+  }
+  return converted;
+}
 
 export function registerAccountingTools(server: McpServer, client: FreeAgentClient): void {
   server.tool(
@@ -104,4 +223,195 @@ export function registerAccountingTools(server: McpServer, client: FreeAgentClie
       }
     }
   );
+
+  server.tool(
+    "freeagent_aged_debtors",
+    "Get an aged debtors report: outstanding invoice amounts per contact, bucketed into current, 1-30, 31-60, 61-90 and 90+ days overdue, with totals per currency",
+    agedReportSchema,
+    async ({ as_at_date, convert_to_native }) => {
+      logToolCall("freeagent_aged_debtors", { as_at_date, convert_to_native });
+      try {
+        const data = await agedReport(client, "invoices", as_at_date, convert_to_native);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_aged_creditors",
+    "Get an aged creditors report: outstanding bill amounts per contact, bucketed into current, 1-30, 31-60, 61-90 and 90+ days overdue, with totals per currency",
+    agedReportSchema,
+    async ({ as_at_date, convert_to_native }) => {
+      logToolCall("freeagent_aged_creditors", { as_at_date, convert_to_native });
+      try {
+        const data = await agedReport(client, "bills", as_at_date, convert_to_native);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_cash_flow_forecast",
+    "Project daily or weekly bank balances for the coming weeks from current balances, open invoices and bills, recurring invoices and bills, and upcoming tax payments, flagging periods that fall below a threshold",
+    {
+      weeks: z.number().int().min(1).max(52).optional().describe("Number of weeks to forecast. Defaults to 13"),
+      interval: z
+        .enum(["day", "week"])
+        .optional()
+        .describe("Report balances per day or per week. Defaults to week"),
+      threshold: z
+        .string()
+        .regex(/^-?\d+(\.\d{1,2})?$/, "threshold must be a decimal amount")
+        .optional()
+        .describe("Flag periods where the balance drops below this amount. Defaults to 0"),
+      bank_accounts: z
+        .array(z.string())
+        .optional()
+        .describe("URLs of the bank accounts to start from. Defaults to every account in the company's currency"),
+    },
+    async ({ weeks = 13, interval = "week", threshold, bank_accounts }) => {
+      logToolCall("freeagent_cash_flow_forecast", { weeks, interval, threshold, bank_accounts });
+      try {
+        const start = new Date().toISOString().slice(0, 10);
+        const end = addDays(start, weeks * 7 - 1);
+        const warnings: string[] = [];
+
+        const { company } = await client.get<{ company: { currency: string } }>("/company");
+        const accounts = await listAll<BankAccount>(client, "/bank_accounts", "bank_accounts", {}, warnings);
+        let openingBalance = 0;
+        for (const account of accounts) {
+          if (bank_accounts && !bank_accounts.includes(account.url)) continue;
+          if (account.currency && account.currency !== company.currency) {
+            if (bank_accounts) {
+              warnings.push(`${account.name ?? account.url} is in ${account.currency}; left out of the opening balance`);
+            }
+            continue;
+          }
+          openingBalance += cents(account.current_balance);
+        }
+
+        const open = { view: "open_or_overdue" };
+        const sources = {
+          invoices: await listAll<ForecastInvoice>(client, "/invoices", "invoices", open, warnings),
+          paidInvoices: await listAll<ForecastInvoice>(client, "/invoices", "invoices", { view: "last_12_months" }, warnings),
+          bills: await listAll<ForecastBill>(client, "/bills", "bills", open, warnings),
+          recurringInvoices: await listAll<ForecastRecurringInvoice>(client, "/recurring_invoices", "recurring_invoices", { view: "active" }, warnings),
+          recurringBills: await listAll<ForecastBill>(client, "/bills", "bills", { view: "recurring" }, warnings),
+          taxTimeline: (
+            await client.get<{ timeline_items?: TaxTimelineItem[] }>("/company/tax_timeline")
+          ).timeline_items ?? [],
+        };
+
+        const flows = expectedCashFlows(sources, start, end, company.currency, warnings);
+        const forecast = forecastBalances(flows, {
+          start,
+          weeks,
+          interval,
+          openingBalance: money(openingBalance),
+          currency: company.currency,
+          threshold,
+        });
+        return jsonResponse({ ...forecast, warnings });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_list_journal_sets",
+    "List journal sets (manual double-entry adjustments) from FreeAgent with optional date and tag filtering",
+    {
+      from_date: z.string().optional().describe("Only include journal sets dated on or after this date (YYYY-MM-DD)"),
+      to_date: z.string().optional().describe("Only include journal sets dated on or before this date (YYYY-MM-DD)"),
+      updated_since: z
+        .string()
+        .optional()
+        .describe("Only return journal sets updated since this ISO 8601 date"),
+      tag: z.string().optional().describe("Only return journal sets with this tag"),
+      ...paginationSchema,
+    },
+    async ({ from_date, to_date, updated_since, tag, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_journal_sets", { from_date, to_date, updated_since, tag, page, per_page, all_pages });
+      try {
+        const params = buildParams({ from_date, to_date, updated_since, tag });
+        const data = await fetchList(client, "/journal_sets", "journal_sets", params, {
+          page,
+          per_page,
+          all_pages,
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_get_journal_set",
+    "Get a single journal set from FreeAgent by ID, including its entries",
+    {
+      journal_set_id: z.string().describe("The ID of the journal set"),
+    },
+    async ({ journal_set_id }) => {
+      logToolCall("freeagent_get_journal_set", { journal_set_id });
+      try {
+        const data = await client.get(`/journal_sets/${journal_set_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_create_journal_set",
+    "Post a journal set of manual double-entry adjustments (accruals, prepayments, depreciation) to FreeAgent. Debits must equal credits",
+    {
+      dated_on: z.string().describe("Date of the journal (YYYY-MM-DD)"),
+      description: z.string().describe("Description of the journal set"),
+      tag: z.string().optional().describe("Tag to group related journal sets, e.g. \"depreciation\""),
+      entries: z
+        .array(journalEntrySchema)
+        .min(2)
+        .describe("Journal entries, each a debit or a credit to a category"),
+    },
+    async ({ dated_on, description, tag, entries }) => {
+      logToolCall("freeagent_create_journal_set", { dated_on, description, tag, entries: entries.length });
+      try {
+        const journal_set: Record<string, unknown> = {
+          dated_on,
+          description,
+          journal_entries: journalEntries(entries),
+        };
+        if (tag !== undefined) journal_set.tag = tag;
+
+        const data = await client.postJson("/journal_sets", { journal_set });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_delete_journal_set",
+    "Delete a journal set from FreeAgent",
+    {
+      journal_set_id: z.string().describe("The ID of the journal set to delete"),
+    },
+    async ({ journal_set_id }) => {
+      logToolCall("freeagent_delete_journal_set", { journal_set_id });
+      try {
+        const data = await client.deleteReq(`/journal_sets/${journal_set_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
 }
@@ -0,0 +1,206 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { FreeAgentClient } from "../client.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  resolveUploadPath,
+  type FileOptions,
+} from "../utils.js";
+
+// FreeAgent rejects attachments over 5MB
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Content types FreeAgent accepts, keyed by file extension
+export const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/x-pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+};
+
+const CONTENT_TYPE_ALIASES: Record<string, string> = {
+  "application/pdf": "application/x-pdf",
+  "image/jpg": "image/jpeg",
+  "image/x-png": "image/png",
+};
+
+// Leading bytes of each accepted type, to catch mislabelled files
+const FILE_SIGNATURES: Record<string, number[]> = {
+  "application/x-pdf": [0x25, 0x50, 0x44, 0x46],
+  "image/png": [0x89, 0x50, 0x4e, 0x47],
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/gif": [0x47, 0x49, 0x46, 0x38],
+};
+
+export const attachmentSchema = z
+  .object({
+    file_path: z
+      .string()
+      .optional()
+      .describe("Path to the file on the server's machine, within its upload directory if one is set"),
+    data: z.string().optional().describe("Base64-encoded file contents, instead of file_path"),
+    content_type: z
+      .string()
+      .optional()
+      .describe("MIME type: application/pdf, image/png, image/jpeg or image/gif. Inferred from file_path when omitted"),
+    file_name: z.string().optional().describe("File name to store. Defaults to the name in file_path"),
+    description: z.string().optional().describe("Description of the attachment"),
+  })
+  .describe("Receipt or document to attach (PDF, PNG, JPEG or GIF, max 5MB)");
+
+export type AttachmentInput = z.infer<typeof attachmentSchema>;
+
+export interface FreeAgentAttachment {
+  data: string;
+  file_name: string;
+  content_type: string;
+  description?: string;
+}
+
+function resolveContentType(input: AttachmentInput): string {
+  const declared = input.content_type?.toLowerCase();
+  const fromName = ATTACHMENT_CONTENT_TYPES[extname(input.file_name ?? input.file_path ?? "").toLowerCase()];
+  const contentType = declared ? (CONTENT_TYPE_ALIASES[declared] ?? declared) : fromName;
+  if (!contentType) {
+    throw new Error("content_type is required when it cannot be inferred from the file name");
+  }
+  if (!FILE_SIGNATURES[contentType]) {
+    throw new Error(
+      `Unsupported attachment type ${input.content_type}. Use PDF, PNG, JPEG or GIF`
+    );
+  }
+  return contentType;
+}
+
+function tooLarge(bytes: number): Error {
+  return new Error(
+    `Attachment is ${(bytes / 1024 / 1024).toFixed(1)}MB; FreeAgent allows at most ` +
+      `${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB`
+  );
+}
+
+/**
+ * Turns a file path or base64 payload into FreeAgent's `attachment` object,
+ * checking size, type and that the contents look like the declared type.
+ */
+export async function buildAttachment(
+  input: AttachmentInput,
+  options: FileOptions = {}
+): Promise<FreeAgentAttachment> {
+  if (!input.file_path === !input.data) {
+    throw new Error("Attachment needs exactly one of file_path or data");
+  }
+  const contentType = resolveContentType(input);
+
+  let bytes: Buffer;
+  if (input.file_path) {
+    const path = await resolveUploadPath(input.file_path, options);
+    const { size } = await stat(path);
+    if (size > MAX_ATTACHMENT_BYTES) throw tooLarge(size);
+    bytes = await readFile(path);
+  } else {
+    const data = input.data!.replace(/\s/g, "");
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+      throw new Error("Attachment data is not valid base64");
+    }
+    bytes = Buffer.from(data, "base64");
+    if (bytes.length > MAX_ATTACHMENT_BYTES) throw tooLarge(bytes.length);
+  }
+
+  const signature = FILE_SIGNATURES[contentType];
+  if (!signature.every((byte, i) => bytes[i] === byte)) {
+    throw new Error(`Attachment contents do not look like ${contentType}`);
+  }
+
+  const fileName = input.file_name ?? (input.file_path ? basename(input.file_path) : undefined);
+  if (!fileName) throw new Error("file_name is required when attaching base64 data");
+
+  const attachment: FreeAgentAttachment = {
+    data: bytes.toString("base64"),
+    file_name: fileName,
+    content_type: contentType,
+  };
+  if (input.description !== undefined) attachment.description = input.description;
+  return attachment;
+}
+
+// An expense or bill, or one explanation of a bank transaction
+interface AttachmentHolder {
+  attachment?: unknown;
+  bank_transaction_explanations?: AttachmentHolder[];
+}
+
+const RECORD_PATHS = {
+  expense: "/expenses",
+  bill: "/bills",
+  bank_transaction: "/bank_transactions",
+} as const;
+
+export function registerAttachmentTools(server: McpServer, client: FreeAgentClient): void {
+  server.tool(
+    "freeagent_list_attachments",
+    "List the attachments on an expense, bill or bank transaction (via its explanations)",
+    {
+      record_type: z
+        .enum(["expense", "bill", "bank_transaction"])
+        .describe("Type of record the attachments belong to"),
+      record_id: z.string().describe("The ID of the record"),
+    },
+    async ({ record_type, record_id }) => {
+      logToolCall("freeagent_list_attachments", { record_type, record_id });
+      try {
+        const data = await client.get<Record<string, AttachmentHolder | undefined>>(
+          `${RECORD_PATHS[record_type]}/${record_id}`
+        );
+        const record = data[record_type] ?? {};
+        const explanations =
+          record_type === "bank_transaction" ? (record.bank_transaction_explanations ?? []) : [record];
+        const attachments = explanations
+          .map((item) => item.attachment)
+          .filter((attachment) => attachment !== undefined && attachment !== null);
+        return jsonResponse({ attachments });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_get_attachment",
+    "Get a single attachment from FreeAgent by ID, including a temporary download URL",
+    {
+      attachment_id: z.string().describe("The ID of the attachment to retrieve"),
+    },
+    async ({ attachment_id }) => {
+      logToolCall("freeagent_get_attachment", { attachment_id });
+      try {
+        const data = await client.get(`/attachments/${attachment_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_delete_attachment",
+    "Delete an attachment from FreeAgent",
+    {
+      attachment_id: z.string().describe("The ID of the attachment to delete"),
+    },
+    async ({ attachment_id }) => {
+      logToolCall("freeagent_delete_attachment", { attachment_id });
+      try {
+        const data = await client.deleteReq(`/attachments/${attachment_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+}
@@ -1,9 +1,139 @@
+import { readFile } from "node:fs/promises";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import { attachmentSchema, buildAttachment } from "./attachments.js";
+import {
+  suggestExplanations,
+  type BankTransaction,
+  type Expense,
+  type OpenDocument,
+  type PastExplanation,
+} from "../reconcile.js";
+import {
+  detectFormat,
+  findDuplicates,
+  parseStatement,
+  type ExistingTransaction,
+} from "../statements.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  listAll,
+  paginationSchema,
+  MAX_LIST_ITEMS,
+  resolveUploadPath,
+  addDays,
+  cents,
+  daysBetween,
+  money,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerBankingTools(server: McpServer, client: FreeAgentClient): void {
+const explanationTargetSchema = {
+  category: z
+    .string()
+    .optional()
+    .describe("Category URL, for spending or income explained against a category"),
+  paid_invoice: z.string().optional().describe("Invoice URL, for an invoice receipt"),
+  paid_bill: z.string().optional().describe("Bill URL, for a bill payment"),
+  paid_user: z.string().optional().describe("User URL, for repaying a user's expense claims"),
+  transfer_bank_account: z
+    .string()
+    .optional()
+    .describe("URL of the other bank account, for a transfer between accounts"),
+};
+
+const splitSchema = z.object({
+  category: z.string().describe("Category URL"),
+  gross_value: z.string().describe("Amount for this part (negative for money out)"),
+  description: z.string().optional().describe("Description for this part"),
+  sales_tax_rate: z.string().optional().describe("Sales tax rate percentage"),
+});
+
+type ExplanationTarget = Partial<Record<keyof typeof explanationTargetSchema, string>>;
+
+function explanationTargets(args: ExplanationTarget): (keyof ExplanationTarget)[] {
+  return (Object.keys(explanationTargetSchema) as (keyof ExplanationTarget)[]).filter(
+    (key) => args[key] !== undefined
+  );
+}
+
+// The unexplained transaction for exactly `amount` cents nearest to `date`
+function closestTransaction(
+  transactions: BankTransaction[],
+  amount: number,
+  date: string
+): BankTransaction | undefined {
+  const distance = (t: BankTransaction) => Math.abs(daysBetween(t.dated_on, date));
+  return transactions
+    .filter((t) => cents(t.unexplained_amount ?? t.amount) === amount)
+    .sort((a, b) => distance(a) - distance(b))[0];
+}
+
+// Deletes the splits created before split `failed` was rejected, so the
+// transaction is left as it was, then rethrows. Splits that cannot be
+// deleted are named in the error.
+async function rollBackSplits(
+  client: FreeAgentClient,
+  created: { url?: string }[],
+  failed: number,
+  error: unknown
+): Promise<never> {
+  const reason = error instanceof Error ? error.message : String(error);
+  const remaining: string[] = [];
+  for (const explanation of created) {
+    const url = explanation?.url;
+    try {
+      if (!url) throw new Error("no URL");
+      await client.deleteReq(`/bank_transaction_explanations/${url.split("/").pop()}`);
+    } catch {
+      remaining.push(url ?? "an explanation with no URL");
+    }
+  }
+  throw new Error(
+    `Split ${failed + 1} failed: ${reason}. ` +
+      (remaining.length === 0
+        ? "Earlier splits were deleted, so the transaction is unchanged"
+        : `These earlier splits could not be deleted and are still in FreeAgent: ${remaining.join(", ")}`)
+  );
+}
+
+// Deletes the outgoing side of a transfer when the incoming side could not
+// be explained, so neither transaction is left half done, then rethrows
+async function rollBackTransfer(
+  client: FreeAgentClient,
+  created: { url?: string } | undefined,
+  incoming: BankTransaction,
+  error: unknown
+): Promise<never> {
+  const reason = error instanceof Error ? error.message : String(error);
+  const url = created?.url;
+  let deleted = false;
+  try {
+    if (url) {
+      await client.deleteReq(`/bank_transaction_explanations/${url.split("/").pop()}`);
+      deleted = true;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(
+    `Explaining ${incoming.url} failed: ${reason}. ` +
+      (deleted
+        ? "The outgoing explanation was deleted, so neither transaction has changed"
+        : `The outgoing explanation ${url ?? "(no URL returned)"} could not be deleted and is still in FreeAgent`)
+  );
+}
+
+export function registerBankingTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   // ── Bank Accounts ──────────────────────────────────────────────────
 
   server.tool(
@@ -14,12 +144,17 @@ export function registerBankingTools(server: McpServer, client: FreeAgentClient)
         .enum(["standard_bank_accounts", "credit_card_accounts", "paypal_accounts"])
         .optional()
         .describe("Filter bank accounts by type"),
+      ...paginationSchema,
     },
-    async ({ view }) => {
-      logToolCall("freeagent_list_bank_accounts", { view });
+    async ({ view, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_bank_accounts", { view, page, per_page, all_pages });
       try {
         const params = buildParams({ view });
-        const data = await client.get("/bank_accounts", params);
+        const data = await fetchList(client, "/bank_accounts", "bank_accounts", params, {
+          page,
+          per_page,
+          all_pages,
+        });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -160,12 +295,17 @@ export function registerBankingTools(server: McpServer, client: FreeAgentClient)
         .enum(["all", "unexplained", "explained", "manual", "imported", "marked_for_review"])
         .optional()
         .describe("Filter transactions by view"),
+      ...paginationSchema,
     },
-    async ({ bank_account, from_date, to_date, updated_since, view }) => {
-      logToolCall("freeagent_list_bank_transactions", { bank_account, from_date, to_date, view });
+    async ({ bank_account, from_date, to_date, updated_since, view, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_bank_transactions", { bank_account, from_date, to_date, view, page, per_page, all_pages });
       try {
         const params = buildParams({ bank_account, from_date, to_date, updated_since, view });
-        const data = await client.get("/bank_transactions", params);
+        const data = await fetchList(client, "/bank_transactions", "bank_transactions", params, {
+          page,
+          per_page,
+          all_pages,
+        });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -189,4 +329,523 @@ export function registerBankingTools(server: McpServer, client: FreeAgentClient)
       }
     }
   );
+
+  server.tool(
+    "freeagent_upload_bank_statement",
+    "Import a local CSV, OFX or QIF bank statement into a FreeAgent bank account, skipping transactions that are already there",
+    {
+      bank_account: z.string().describe("The full URL of the bank account to upload to"),
+      file_path: z
+        .string()
+        .describe("Path to the statement file on the server's machine, within its upload directory if one is set"),
+      format: z
+        .enum(["csv", "ofx", "qif"])
+        .optional()
+        .describe("Statement format. Defaults to the file extension"),
+      csv_columns: z
+        .object({
+          date: z.union([z.string(), z.number().int().min(0)]),
+          description: z.union([z.string(), z.number().int().min(0)]),
+          amount: z.union([z.string(), z.number().int().min(0)]).optional(),
+          debit: z.union([z.string(), z.number().int().min(0)]).optional(),
+          credit: z.union([z.string(), z.number().int().min(0)]).optional(),
+        })
+        .optional()
+        .describe(
+          "CSV columns by header name or 0-based index. Use amount, or debit/credit for separate money-out and money-in columns. Defaults to Date, Description, Amount"
+        ),
+      csv_has_header: z.boolean().optional().describe("Whether the CSV has a header row (default true)"),
+      date_format: z
+        .string()
+        .optional()
+        .describe('Date format for CSV and QIF files using YYYY, YY, MM and DD, e.g. "MM/DD/YYYY". Defaults to DD/MM/YYYY'),
+      sign_convention: z
+        .enum(["standard", "inverted"])
+        .optional()
+        .describe('"standard" if negative amounts are money out (default), "inverted" if positive amounts are money out'),
+      skip_duplicates: z
+        .boolean()
+        .optional()
+        .describe("Leave out transactions that match an existing one by date and amount (default true)"),
+    },
+    async ({
+      bank_account,
+      file_path,
+      format,
+      csv_columns,
+      csv_has_header,
+      date_format,
+      sign_convention,
+      skip_duplicates,
+    }) => {
+      logToolCall("freeagent_upload_bank_statement", { bank_account, file_path, format, date_format, sign_convention, skip_duplicates });
+      try {
+        const text = await readFile(await resolveUploadPath(file_path, options), "utf-8");
+        const transactions = parseStatement(text, {
+          format: format ?? detectFormat(file_path),
+          columns: csv_columns,
+          dateFormat: date_format,
+          sign: sign_convention,
+          hasHeader: csv_has_header,
+        });
+        if (transactions.length === 0) {
+          throw new Error(`No transactions found in ${file_path}`);
+        }
+
+        const dates = transactions.map((t) => t.dated_on).sort();
+        const existing = await client.getAllPages(
+          "/bank_transactions",
+          "bank_transactions",
+          { bank_account, from_date: dates[0], to_date: dates[dates.length - 1] },
+          MAX_LIST_ITEMS
+        );
+        if (existing.truncated && skip_duplicates !== false) {
+          throw new Error(
+            `The account has more than ${MAX_LIST_ITEMS} transactions between ${dates[0]} and ` +
+              `${dates[dates.length - 1]}, too many to check for duplicates. ` +
+              "Upload a shorter statement, or set skip_duplicates to false"
+          );
+        }
+        const { unique, duplicates } = findDuplicates(
+          transactions,
+          existing.items as ExistingTransaction[]
+        );
+        const statement = skip_duplicates === false ? transactions : unique;
+
+        const result: Record<string, unknown> = {
+          parsed: transactions.length,
+          uploaded: statement.length,
+          duplicates,
+        };
+        if (statement.length > 0) {
+          const query = new URLSearchParams({ bank_account });
+          result.response = await client.postJson(`/bank_transactions/statement?${query}`, {
+            statement,
+          });
+        }
+        return jsonResponse(result);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_suggest_explanations",
+    "Suggest how to explain a bank account's unexplained transactions by matching open invoices, open bills, existing expenses and categories used for similar past transactions. Each suggestion has a confidence, a reason and ready-to-use arguments for freeagent_create_bank_transaction_explanation",
+    {
+      bank_account: z.string().describe("The full URL of the bank account to reconcile"),
+      from_date: z.string().optional().describe("Only consider transactions from this date (YYYY-MM-DD)"),
+      to_date: z.string().optional().describe("Only consider transactions up to this date (YYYY-MM-DD)"),
+      max_suggestions: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("Maximum suggestions per transaction (default 3)"),
+    },
+    async ({ bank_account, from_date, to_date, max_suggestions }) => {
+      logToolCall("freeagent_suggest_explanations", { bank_account, from_date, to_date, max_suggestions });
+      try {
+        const warnings: string[] = [];
+        const transactions = await listAll<BankTransaction>(
+          client,
+          "/bank_transactions",
+          "bank_transactions",
+          buildParams({ bank_account, view: "unexplained", from_date, to_date }),
+          warnings
+        );
+        if (transactions.length === 0) return jsonResponse({ transactions: [], warnings });
+
+        const dates = transactions.map((t) => t.dated_on).sort();
+        const first = dates[0];
+        const last = dates[dates.length - 1];
+        const [invoices, bills, expenses, explanations] = await Promise.all([
+          listAll<OpenDocument>(client, "/invoices", "invoices", { view: "open_or_overdue" }, warnings),
+          listAll<OpenDocument>(client, "/bills", "bills", { view: "open_or_overdue" }, warnings),
+          listAll<Expense>(
+            client,
+            "/expenses",
+            "expenses",
+            { from_date: addDays(first, -7), to_date: addDays(last, 7) },
+            warnings
+          ),
+          listAll<PastExplanation>(
+            client,
+            "/bank_transaction_explanations",
+            "bank_transaction_explanations",
+            { bank_account, from_date: addDays(first, -365) },
+            warnings
+          ),
+        ]);
+
+        const results = suggestExplanations(
+          transactions,
+          { invoices, bills, expenses, explanations },
+          max_suggestions
+        );
+        return jsonResponse({ transactions: results, warnings });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // ── Bank Transaction Explanations ──────────────────────────────────
+
+  server.tool(
+    "freeagent_list_bank_transaction_explanations",
+    "List bank transaction explanations from FreeAgent for a specific bank account",
+    {
+      bank_account: z
+        .string()
+        .describe("The full URL of the bank account to list explanations for"),
+      from_date: z.string().optional().describe("Start date for filtering (YYYY-MM-DD)"),
+      to_date: z.string().optional().describe("End date for filtering (YYYY-MM-DD)"),
+      updated_since: z
+        .string()
+        .optional()
+        .describe("Only return explanations updated since this ISO 8601 date"),
+      ...paginationSchema,
+    },
+    async ({ bank_account, from_date, to_date, updated_since, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_bank_transaction_explanations", { bank_account, from_date, to_date, page, per_page, all_pages });
+      try {
+        const params = buildParams({ bank_account, from_date, to_date, updated_since });
+        const data = await fetchList(
+          client,
+          "/bank_transaction_explanations",
+          "bank_transaction_explanations",
+          params,
+          { page, per_page, all_pages }
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_get_bank_transaction_explanation",
+    "Get a single bank transaction explanation from FreeAgent by ID",
+    {
+      explanation_id: z.string().describe("The ID of the explanation to retrieve"),
+    },
+    async ({ explanation_id }) => {
+      logToolCall("freeagent_get_bank_transaction_explanation", { explanation_id });
+      try {
+        const data = await client.get(`/bank_transaction_explanations/${explanation_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_create_bank_transaction_explanation",
+    "Explain a bank transaction in FreeAgent as a category, invoice receipt, bill payment or transfer, or split it across several categories",
+    {
+      bank_transaction: z
+        .string()
+        .optional()
+        .describe("URL of the bank transaction to explain"),
+      bank_account: z
+        .string()
+        .optional()
+        .describe("Bank account URL, to create a manual entry instead of explaining an existing transaction"),
+      dated_on: z.string().describe("Date of the transaction (YYYY-MM-DD)"),
+      gross_value: z
+        .string()
+        .optional()
+        .describe("Amount explained (negative for money out). Not used with splits"),
+      ...explanationTargetSchema,
+      splits: z
+        .array(splitSchema)
+        .optional()
+        .describe("Split bank_transaction across several categories. Amounts must add up to its unexplained amount"),
+      description: z.string().optional().describe("Description of the transaction"),
+      sales_tax_rate: z.string().optional().describe("Sales tax rate percentage"),
+      marked_for_review: z
+        .boolean()
+        .optional()
+        .describe("Flag the explanation for an accountant to review"),
+      attachment: attachmentSchema.optional(),
+    },
+    async ({
+      bank_transaction,
+      bank_account,
+      dated_on,
+      gross_value,
+      splits,
+      description,
+      sales_tax_rate,
+      marked_for_review,
+      attachment,
+      ...targets
+    }) => {
+      logToolCall("freeagent_create_bank_transaction_explanation", { bank_transaction, bank_account, dated_on, gross_value, ...targets, splits: splits?.length });
+      try {
+        if (!bank_transaction && !bank_account) {
+          throw new Error("Provide bank_transaction or bank_account");
+        }
+        const chosen = explanationTargets(targets);
+        if (splits ? chosen.length > 0 : chosen.length !== 1) {
+          throw new Error(
+            "Provide exactly one of category, paid_invoice, paid_bill, paid_user, transfer_bank_account or splits"
+          );
+        }
+
+        const base: Record<string, unknown> = { dated_on };
+        if (bank_transaction !== undefined) base.bank_transaction = bank_transaction;
+        else base.bank_account = bank_account;
+        if (marked_for_review !== undefined) base.marked_for_review = marked_for_review;
+        // Splits carry the attachment on their first part only
+        const receipt = attachment !== undefined ? await buildAttachment(attachment, options) : undefined;
+
+        if (!splits) {
+          if (gross_value === undefined) throw new Error("gross_value is required");
+          const bank_transaction_explanation: Record<string, unknown> = {
+            ...base,
+            gross_value,
+            [chosen[0]]: targets[chosen[0]],
+          };
+          if (description !== undefined) bank_transaction_explanation.description = description;
+          if (sales_tax_rate !== undefined) bank_transaction_explanation.sales_tax_rate = sales_tax_rate;
+          if (receipt !== undefined) bank_transaction_explanation.attachment = receipt;
+          const data = await client.postJson("/bank_transaction_explanations", {
+            bank_transaction_explanation,
+          });
+          return jsonResponse(data);
+        }
+
+        if (splits.length === 0) throw new Error("splits must not be empty");
+        // Without a transaction there is no total to check the splits against
+        if (!bank_transaction) throw new Error("splits require bank_transaction");
+        const id = bank_transaction.split("/").pop();
+        const { bank_transaction: txn } = await client.get<{
+          bank_transaction: { unexplained_amount: string };
+        }>(`/bank_transactions/${id}`);
+        const total = splits.reduce((sum, split) => sum + cents(split.gross_value), 0);
+        if (total !== cents(txn.unexplained_amount)) {
+          throw new Error(
+            `Splits add up to ${money(total)} but the transaction has ` +
+              `${txn.unexplained_amount} unexplained`
+          );
+        }
+
+        const bank_transaction_explanations: { url?: string }[] = [];
+        for (const [index, split] of splits.entries()) {
+          const bank_transaction_explanation: Record<string, unknown> = {
+            ...base,
+            category: split.category,
+            gross_value: split.gross_value,
+          };
+          if (index === 0 && receipt !== undefined) bank_transaction_explanation.attachment = receipt;
+          const splitDescription = split.description ?? description;
+          if (splitDescription !== undefined) bank_transaction_explanation.description = splitDescription;
+          if (split.sales_tax_rate !== undefined) bank_transaction_explanation.sales_tax_rate = split.sales_tax_rate;
+          try {
+            const data = await client.postJson<{ bank_transaction_explanation: { url?: string } }>(
+              "/bank_transaction_explanations",
+              { bank_transaction_explanation }
+            );
+            bank_transaction_explanations.push(data?.bank_transaction_explanation);
+          } catch (error) {
+            await rollBackSplits(client, bank_transaction_explanations, index, error);
+          }
+        }
+        return jsonResponse({ bank_transaction_explanations });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_update_bank_transaction_explanation",
+    "Update a bank transaction explanation in FreeAgent, e.g. to recategorise it or clear marked_for_review",
+    {
+      explanation_id: z.string().describe("The ID of the explanation to update"),
+      dated_on: z.string().optional().describe("Date of the transaction (YYYY-MM-DD)"),
+      gross_value: z.string().optional().describe("Amount explained (negative for money out)"),
+      ...explanationTargetSchema,
+      description: z.string().optional().describe("Description of the transaction"),
+      sales_tax_rate: z.string().optional().describe("Sales tax rate percentage"),
+      marked_for_review: z
+        .boolean()
+        .optional()
+        .describe("Flag or unflag the explanation for review"),
+      attachment: attachmentSchema.optional(),
+    },
+    async ({ explanation_id, attachment, ...rest }) => {
+      logToolCall("freeagent_update_bank_transaction_explanation", { explanation_id, ...rest });
+      try {
+        if (explanationTargets(rest).length > 1) {
+          throw new Error(
+            "Provide at most one of category, paid_invoice, paid_bill, paid_user or transfer_bank_account"
+          );
+        }
+        const bank_transaction_explanation: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(rest)) {
+          if (v !== undefined) bank_transaction_explanation[k] = v;
+        }
+        if (attachment !== undefined) {
+          bank_transaction_explanation.attachment = await buildAttachment(attachment, options);
+        }
+        const data = await client.putJson(`/bank_transaction_explanations/${explanation_id}`, {
+          bank_transaction_explanation,
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  server.tool(
+    "freeagent_delete_bank_transaction_explanation",
+    "Delete a bank transaction explanation from FreeAgent, returning the transaction to unexplained",
+    {
+      explanation_id: z.string().describe("The ID of the explanation to delete"),
+    },
+    async ({ explanation_id }) => {
+      logToolCall("freeagent_delete_bank_transaction_explanation", { explanation_id });
+      try {
+        const data = await client.deleteReq(`/bank_transaction_explanations/${explanation_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // ── Transfers ──────────────────────────────────────────────────────
+
+  server.tool(
+    "freeagent_create_bank_transfer",
+    "Record money moving between two of the company's bank accounts, such as a credit card repayment or PayPal sweep, matching the unexplained transactions already imported on either side",
+    {
+      from_bank_account: z.string().describe("URL of the bank account the money left"),
+      to_bank_account: z.string().describe("URL of the bank account the money arrived in"),
+      dated_on: z.string().describe("Date of the transfer (YYYY-MM-DD)"),
+      amount: z
+        .string()
+        .regex(/^\d+(\.\d{1,2})?$/, 'amount must be a positive amount, e.g. "500.00"')
+        .describe("Amount that left from_bank_account, in its currency"),
+      received_amount: z
+        .string()
+        .regex(/^\d+(\.\d{1,2})?$/, 'received_amount must be a positive amount, e.g. "425.10"')
+        .optional()
+        .describe("Amount that arrived in to_bank_account, in its currency. Required when the accounts use different currencies"),
+      description: z.string().optional().describe("Description of the transfer"),
+      match_existing: z
+        .boolean()
+        .optional()
+        .describe("Explain matching unexplained transactions instead of adding new entries (default true)"),
+      match_window_days: z
+        .number()
+        .int()
+        .min(0)
+        .max(14)
+        .optional()
+        .describe("How many days either side of dated_on to look for matching transactions (default 3)"),
+    },
+    async ({ from_bank_account, to_bank_account, dated_on, amount, received_amount, description, match_existing, match_window_days }) => {
+      logToolCall("freeagent_create_bank_transfer", { from_bank_account, to_bank_account, dated_on, amount, received_amount, match_existing });
+      try {
+        if (from_bank_account === to_bank_account) {
+          throw new Error("from_bank_account and to_bank_account must be different accounts");
+        }
+
+        const [from, to] = await Promise.all(
+          [from_bank_account, to_bank_account].map(async (url) => {
+            const { bank_account } = await client.get<{
+              bank_account: { currency?: string; name?: string };
+            }>(`/bank_accounts/${url.split("/").pop()}`);
+            return bank_account;
+          })
+        );
+        const sameCurrency = (from.currency ?? "") === (to.currency ?? "");
+        if (!sameCurrency && received_amount === undefined) {
+          throw new Error(
+            `${from.name ?? from_bank_account} is in ${from.currency} and ${to.name ?? to_bank_account} ` +
+              `is in ${to.currency}; give received_amount in ${to.currency}`
+          );
+        }
+        const sent = cents(amount);
+        const received = cents(received_amount ?? amount);
+
+        const warnings: string[] = [];
+        let outgoing: BankTransaction | undefined;
+        let incoming: BankTransaction | undefined;
+        if (match_existing !== false) {
+          const window = match_window_days ?? 3;
+          const range = { from_date: addDays(dated_on, -window), to_date: addDays(dated_on, window) };
+          const [fromTxns, toTxns] = await Promise.all(
+            [from_bank_account, to_bank_account].map((bank_account) =>
+              listAll<BankTransaction>(
+                client,
+                "/bank_transactions",
+                "bank_transactions",
+                { bank_account, view: "unexplained", ...range },
+                warnings
+              )
+            )
+          );
+          outgoing = closestTransaction(fromTxns, -sent, dated_on);
+          incoming = closestTransaction(toTxns, received, dated_on);
+        }
+
+        // One side of the transfer, explained against the other account
+        const explanationFor = (side: "from" | "to", txn: BankTransaction | undefined) => {
+          const fromSide = side === "from";
+          const bank_transaction_explanation: Record<string, unknown> = {
+            dated_on: txn?.dated_on ?? dated_on,
+            gross_value: money(fromSide ? -sent : received),
+            transfer_bank_account: fromSide ? to_bank_account : from_bank_account,
+          };
+          if (txn) bank_transaction_explanation.bank_transaction = txn.url;
+          else bank_transaction_explanation.bank_account = from_bank_account;
+          if (!sameCurrency) {
+            bank_transaction_explanation.transfer_value = money(fromSide ? received : -sent);
+          }
+          if (description !== undefined) bank_transaction_explanation.description = description;
+          return bank_transaction_explanation;
+        };
+
+        // Every imported side is explained, which pairs them in FreeAgent
+        // instead of it adding its own entry for the other side. With
+        // nothing imported, a new entry is added on the source account.
+        const sides: ["from" | "to", BankTransaction | undefined][] = [];
+        if (outgoing || !incoming) sides.push(["from", outgoing]);
+        if (incoming) sides.push(["to", incoming]);
+        const bank_transaction_explanations: { url?: string }[] = [];
+        for (const [side, txn] of sides) {
+          try {
+            const data = await client.postJson<{ bank_transaction_explanation: { url?: string } }>(
+              "/bank_transaction_explanations",
+              { bank_transaction_explanation: explanationFor(side, txn) }
+            );
+            bank_transaction_explanations.push(data?.bank_transaction_explanation);
+          } catch (error) {
+            if (bank_transaction_explanations.length === 0) throw error;
+            await rollBackTransfer(client, bank_transaction_explanations[0], txn!, error);
+          }
+        }
+        return jsonResponse({
+          bank_transaction_explanations,
+          matched: {
+            from_transaction: outgoing?.url ?? null,
+            to_transaction: incoming?.url ?? null,
+          },
+          warnings,
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
 }
@@ -1,9 +1,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import { attachmentSchema, buildAttachment } from "./attachments.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerBillTools(server: McpServer, client: FreeAgentClient): void {
+export function registerBillTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   // List bills
   server.tool(
     "freeagent_list_bills",
@@ -37,12 +50,13 @@ export function registerBillTools(server: McpServer, client: FreeAgentClient): v
         .boolean()
         .optional()
         .describe("Whether to include nested bill items in the response"),
+      ...paginationSchema,
     },
-    async ({ view, from_date, to_date, updated_since, contact, project, nested_bill_items }) => {
-      logToolCall("freeagent_list_bills", { view, from_date, to_date, updated_since, contact, project, nested_bill_items });
+    async ({ view, from_date, to_date, updated_since, contact, project, nested_bill_items, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_bills", { view, from_date, to_date, updated_since, contact, project, nested_bill_items, page, per_page, all_pages });
       try {
         const params = buildParams({ view, from_date, to_date, updated_since, contact, project, nested_bill_items });
-        const data = await client.get("/bills", params);
+        const data = await fetchList(client, "/bills", "bills", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -82,8 +96,9 @@ export function registerBillTools(server: McpServer, client: FreeAgentClient): v
         .describe('JSON array of bill items, e.g. [{"category":"https://...","description":"Item","total_value":"100.00","sales_tax_rate":"20.0"}]'),
       currency: z.string().optional().describe("Currency code, e.g. GBP"),
       comments: z.string().optional().describe("Comments on the bill"),
+      attachment: attachmentSchema.optional(),
     },
-    async ({ contact, reference, dated_on, due_on, bill_items, currency, comments }) => {
+    async ({ contact, reference, dated_on, due_on, bill_items, currency, comments, attachment }) => {
       logToolCall("freeagent_create_bill", { contact, reference, dated_on, due_on });
       try {
         const parsedItems = JSON.parse(bill_items);
@@ -96,6 +111,7 @@ export function registerBillTools(server: McpServer, client: FreeAgentClient): v
         };
         if (currency !== undefined) bill.currency = currency;
         if (comments !== undefined) bill.comments = comments;
+        if (attachment !== undefined) bill.attachment = await buildAttachment(attachment, options);
 
         const data = await client.postJson("/bills", { bill });
         return jsonResponse(data);
@@ -115,14 +131,16 @@ export function registerBillTools(server: McpServer, client: FreeAgentClient): v
       dated_on: z.string().optional().describe("Bill date (YYYY-MM-DD)"),
       due_on: z.string().optional().describe("Bill due date (YYYY-MM-DD)"),
       comments: z.string().optional().describe("Comments on the bill"),
+      attachment: attachmentSchema.optional(),
     },
-    async ({ bill_id, ...rest }) => {
+    async ({ bill_id, attachment, ...rest }) => {
       logToolCall("freeagent_update_bill", { bill_id, ...rest });
       try {
         const bill: Record<string, unknown> = {};
         for (const [k, v] of Object.entries(rest)) {
           if (v !== undefined) bill[k] = v;
         }
+        if (attachment !== undefined) bill.attachment = await buildAttachment(attachment, options);
         const data = await client.putJson(`/bills/${bill_id}`, { bill });
         return jsonResponse(data);
       } catch (error) {
@@ -1,7 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+} from "../utils.js";
 
 export function registerContactTools(server: McpServer, client: FreeAgentClient): void {
   server.tool(
@@ -30,12 +37,13 @@ export function registerContactTools(server: McpServer, client: FreeAgentClient)
         .string()
         .optional()
         .describe("Only return contacts updated since this ISO 8601 date"),
+      ...paginationSchema,
     },
-    async ({ view, sort, updated_since }) => {
-      logToolCall("freeagent_list_contacts", { view, sort, updated_since });
+    async ({ view, sort, updated_since, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_contacts", { view, sort, updated_since, page, per_page, all_pages });
       try {
         const params = buildParams({ view, sort, updated_since });
-        const data = await client.get("/contacts", params);
+        const data = await fetchList(client, "/contacts", "contacts", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -1,9 +1,38 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  fileResponse,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerCreditNoteTools(server: McpServer, client: FreeAgentClient): void {
+interface CreditNote {
+  url: string;
+  contact?: string;
+  due_value?: string;
+}
+
+interface AllocationInvoice {
+  reference?: string;
+  contact?: string;
+  status?: string;
+  due_value?: string;
+}
+
+// Invoice statuses that can still take a credit note allocation
+const OPEN_INVOICE_STATUSES = ["Open", "Overdue"];
+
+export function registerCreditNoteTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   // List credit notes
   server.tool(
     "freeagent_list_credit_notes",
@@ -33,12 +62,17 @@ export function registerCreditNoteTools(server: McpServer, client: FreeAgentClie
         .boolean()
         .optional()
         .describe("Whether to include nested credit note items in the response"),
+      ...paginationSchema,
     },
-    async ({ view, updated_since, sort, contact, project, nested_credit_note_items }) => {
-      logToolCall("freeagent_list_credit_notes", { view, updated_since, sort, contact, project, nested_credit_note_items });
+    async ({ view, updated_since, sort, contact, project, nested_credit_note_items, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_credit_notes", { view, updated_since, sort, contact, project, nested_credit_note_items, page, per_page, all_pages });
       try {
         const params = buildParams({ view, updated_since, sort, contact, project, nested_credit_note_items });
-        const data = await client.get("/credit_notes", params);
+        const data = await fetchList(client, "/credit_notes", "credit_notes", params, {
+          page,
+          per_page,
+          all_pages,
+        });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -157,4 +191,209 @@ export function registerCreditNoteTools(server: McpServer, client: FreeAgentClie
       }
     }
   );
+
+  // Mark credit note as sent
+  server.tool(
+    "freeagent_mark_credit_note_as_sent",
+    "Mark a credit note as sent in FreeAgent",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+    },
+    async ({ credit_note_id }) => {
+      logToolCall("freeagent_mark_credit_note_as_sent", { credit_note_id });
+      try {
+        const data = await client.putJson(
+          `/credit_notes/${credit_note_id}/transitions/mark_as_sent`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark credit note as draft
+  server.tool(
+    "freeagent_mark_credit_note_as_draft",
+    "Mark a credit note as draft in FreeAgent",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+    },
+    async ({ credit_note_id }) => {
+      logToolCall("freeagent_mark_credit_note_as_draft", { credit_note_id });
+      try {
+        const data = await client.putJson(
+          `/credit_notes/${credit_note_id}/transitions/mark_as_draft`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark credit note as cancelled
+  server.tool(
+    "freeagent_mark_credit_note_as_cancelled",
+    "Mark a credit note as cancelled in FreeAgent",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+    },
+    async ({ credit_note_id }) => {
+      logToolCall("freeagent_mark_credit_note_as_cancelled", { credit_note_id });
+      try {
+        const data = await client.putJson(
+          `/credit_notes/${credit_note_id}/transitions/mark_as_cancelled`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Send credit note email
+  server.tool(
+    "freeagent_send_credit_note_email",
+    "Send a credit note by email from FreeAgent",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+      to: z.string().describe("Recipient email address"),
+      from_email: z.string().optional().describe("Sender email address"),
+      subject: z.string().optional().describe("Email subject line"),
+      body: z.string().optional().describe("Email body text"),
+    },
+    async ({ credit_note_id, to, from_email, subject, body }) => {
+      logToolCall("freeagent_send_credit_note_email", { credit_note_id, to, from_email, subject });
+      try {
+        const email: Record<string, unknown> = { to };
+        if (from_email !== undefined) email.from = from_email;
+        if (subject !== undefined) email.subject = subject;
+        if (body !== undefined) email.body = body;
+        const data = await client.postJson(`/credit_notes/${credit_note_id}/send_email`, {
+          credit_note: { email },
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Download credit note PDF
+  server.tool(
+    "freeagent_get_credit_note_pdf",
+    "Download a credit note as a PDF, returned as an embedded resource or saved to the server's output directory",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+      save: z
+        .boolean()
+        .optional()
+        .describe("Save credit-note-<id>.pdf in the server's output directory (FREEAGENT_OUTPUT_DIR) and return its path instead of the PDF"),
+    },
+    async ({ credit_note_id, save }) => {
+      logToolCall("freeagent_get_credit_note_pdf", { credit_note_id, save });
+      try {
+        const file = await client.getBinary(`/credit_notes/${credit_note_id}/pdf`);
+        return await fileResponse(
+          file,
+          `freeagent://credit_notes/${credit_note_id}/pdf`,
+          `credit-note-${credit_note_id}.pdf`,
+          save,
+          options
+        );
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Allocate or refund credit note
+  server.tool(
+    "freeagent_allocate_credit_note",
+    "Use a credit note's remaining balance, either allocated against an open invoice for the same contact or refunded from a bank account",
+    {
+      credit_note_id: z.string().describe("The ID of the credit note"),
+      invoice: z
+        .string()
+        .optional()
+        .describe("URL of the open invoice to allocate the credit against"),
+      bank_account: z
+        .string()
+        .optional()
+        .describe("URL of the bank account the refund was paid from"),
+      dated_on: z.string().describe("Date of the allocation or refund (YYYY-MM-DD)"),
+      amount: z
+        .string()
+        .regex(/^\d+(\.\d+)?$/, 'amount must be a positive decimal number, e.g. "50.00"')
+        .optional()
+        .describe("Amount to use. Defaults to the credit remaining, capped at the invoice's amount due"),
+    },
+    async ({ credit_note_id, invoice, bank_account, dated_on, amount }) => {
+      logToolCall("freeagent_allocate_credit_note", { credit_note_id, invoice, bank_account, dated_on, amount });
+      try {
+        if (!invoice === !bank_account) {
+          throw new Error("Provide exactly one of invoice (to allocate) or bank_account (to refund)");
+        }
+
+        const { credit_note } = await client.get<{ credit_note: CreditNote }>(
+          `/credit_notes/${credit_note_id}`
+        );
+        const remaining = Math.abs(Number(credit_note.due_value ?? 0));
+        if (!(remaining > 0)) {
+          throw new Error(`Credit note ${credit_note_id} has no remaining credit to use`);
+        }
+        let value = amount !== undefined ? Number(amount) : remaining;
+        if (value > remaining) {
+          throw new Error(`Only ${remaining.toFixed(2)} of credit note ${credit_note_id} remains`);
+        }
+
+        if (invoice) {
+          const { invoice: target } = await client.get<{ invoice: AllocationInvoice }>(
+            `/invoices/${invoice.split("/").pop()}`
+          );
+          const name = target.reference ?? invoice;
+          if (target.contact !== credit_note.contact) {
+            throw new Error(`Invoice ${name} is for a different contact than credit note ${credit_note_id}`);
+          }
+          if (!OPEN_INVOICE_STATUSES.includes(target.status ?? "")) {
+            throw new Error(`Invoice ${name} is ${target.status ?? "not open"}; credit can only be allocated to open invoices`);
+          }
+          const due = Number(target.due_value ?? 0);
+          if (!(due > 0)) throw new Error(`Invoice ${name} has nothing due`);
+          if (amount === undefined) value = Math.min(value, due);
+          else if (value > due) throw new Error(`Only ${due.toFixed(2)} is due on invoice ${name}`);
+        }
+        if (!(value > 0)) throw new Error("amount must be greater than zero");
+
+        if (invoice) {
+          const data = await client.postJson("/credit_note_reconciliations", {
+            credit_note_reconciliation: {
+              credit_note: credit_note.url,
+              invoice,
+              dated_on,
+              gross_value: value.toFixed(2),
+            },
+          });
+          return jsonResponse(data);
+        }
+
+        // A refund is money out, explained against the credit note
+        const data = await client.postJson("/bank_transaction_explanations", {
+          bank_transaction_explanation: {
+            bank_account,
+            dated_on,
+            paid_invoice: credit_note.url,
+            gross_value: (-value).toFixed(2),
+          },
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
 }
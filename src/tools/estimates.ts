@@ -1,9 +1,80 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import { contactPaymentTerms } from "./invoices.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  fileResponse,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerEstimateTools(server: McpServer, client: FreeAgentClient): void {
+export interface EstimateItem {
+  url?: string;
+  item_type?: string;
+  quantity?: string;
+  price?: string;
+  description?: string;
+  sales_tax_rate?: string;
+  category?: string;
+}
+
+export interface Estimate {
+  contact: string;
+  project?: string;
+  reference?: string;
+  status?: string;
+  dated_on?: string;
+  currency?: string;
+  estimate_items?: EstimateItem[];
+}
+
+/**
+ * Maps estimate items to invoice items, optionally keeping only `itemUrls`
+ * and scaling prices to a deposit percentage.
+ */
+export function estimateToInvoiceItems(
+  items: EstimateItem[],
+  options: { itemUrls?: string[]; depositPercentage?: number } = {}
+): Record<string, unknown>[] {
+  const { itemUrls, depositPercentage } = options;
+  if (itemUrls) {
+    const known = new Set(items.map((item) => item.url));
+    const missing = itemUrls.filter((url) => !known.has(url));
+    if (missing.length > 0) {
+      throw new Error(`Estimate has no item(s): ${missing.join(", ")}`);
+    }
+  }
+
+  const selected = itemUrls ? items.filter((item) => itemUrls.includes(item.url!)) : items;
+  if (selected.length === 0) throw new Error("No estimate items to convert");
+
+  return selected.map((item) => {
+    const invoiceItem: Record<string, unknown> = {
+      item_type: item.item_type ?? "-no unit-",
+      quantity: item.quantity ?? "1",
+      price: item.price ?? "0",
+      description: item.description ?? "",
+    };
+    if (item.sales_tax_rate !== undefined) invoiceItem.sales_tax_rate = item.sales_tax_rate;
+    if (item.category !== undefined) invoiceItem.category = item.category;
+    if (depositPercentage !== undefined && item.item_type !== "Comment") {
+      invoiceItem.price = ((Number(item.price ?? 0) * depositPercentage) / 100).toFixed(2);
+      invoiceItem.description = `${depositPercentage}% deposit: ${invoiceItem.description}`;
+    }
+    return invoiceItem;
+  });
+}
+
+export function registerEstimateTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   // List estimates
   server.tool(
     "freeagent_list_estimates",
@@ -22,12 +93,13 @@ export function registerEstimateTools(server: McpServer, client: FreeAgentClient
         .describe("Include nested estimate items in the response"),
       contact: z.string().optional().describe("Filter by contact URL"),
       project: z.string().optional().describe("Filter by project URL"),
+      ...paginationSchema,
     },
-    async ({ view, from_date, to_date, updated_since, nested_estimate_items, contact, project }) => {
-      logToolCall("freeagent_list_estimates", { view, from_date, to_date, updated_since, nested_estimate_items, contact, project });
+    async ({ view, from_date, to_date, updated_since, nested_estimate_items, contact, project, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_estimates", { view, from_date, to_date, updated_since, nested_estimate_items, contact, project, page, per_page, all_pages });
       try {
         const params = buildParams({ view, from_date, to_date, updated_since, nested_estimate_items, contact, project });
-        const data = await client.get("/estimates", params);
+        const data = await fetchList(client, "/estimates", "estimates", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -194,4 +266,97 @@ export function registerEstimateTools(server: McpServer, client: FreeAgentClient
       }
     }
   );
+
+  // Download estimate PDF
+  server.tool(
+    "freeagent_get_estimate_pdf",
+    "Download an estimate as a PDF, returned as an embedded resource or saved to the server's output directory",
+    {
+      estimate_id: z.string().describe("The estimate ID"),
+      save: z
+        .boolean()
+        .optional()
+        .describe("Save estimate-<id>.pdf in the server's output directory (FREEAGENT_OUTPUT_DIR) and return its path instead of the PDF"),
+    },
+    async ({ estimate_id, save }) => {
+      logToolCall("freeagent_get_estimate_pdf", { estimate_id, save });
+      try {
+        const file = await client.getBinary(`/estimates/${estimate_id}/pdf`);
+        return await fileResponse(
+          file,
+          `freeagent://estimates/${estimate_id}/pdf`,
+          `estimate-${estimate_id}.pdf`,
+          save,
+          options
+        );
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Convert estimate to invoice
+  server.tool(
+    "freeagent_convert_estimate_to_invoice",
+    "Create a draft invoice from an approved estimate, copying its contact, project, currency and items. Optionally invoice only some items or a deposit percentage",
+    {
+      estimate_id: z.string().describe("The estimate ID"),
+      items: z
+        .array(z.string())
+        .optional()
+        .describe("URLs of the estimate items to invoice. Defaults to all items"),
+      deposit_percentage: z
+        .number()
+        .gt(0)
+        .max(100)
+        .optional()
+        .describe("Invoice this percentage of each item's price, e.g. 25 for a 25% deposit"),
+      dated_on: z
+        .string()
+        .optional()
+        .describe("Invoice date (YYYY-MM-DD). Defaults to the estimate date"),
+      payment_terms_in_days: z
+        .number()
+        .optional()
+        .describe("Payment terms in days. Defaults to the contact's terms"),
+    },
+    async ({ estimate_id, items, deposit_percentage, dated_on, payment_terms_in_days }) => {
+      logToolCall("freeagent_convert_estimate_to_invoice", { estimate_id, items: items?.length, deposit_percentage, dated_on });
+      try {
+        const { estimate } = await client.get<{ estimate: Estimate }>(
+          `/estimates/${estimate_id}`
+        );
+        if (estimate.status !== "Approved") {
+          throw new Error(
+            `Estimate ${estimate.reference ?? estimate_id} is ${estimate.status ?? "not approved"}; ` +
+              "only approved estimates can be converted. Mark it as approved with freeagent_mark_estimate_as_approved first"
+          );
+        }
+        const invoice_items = estimateToInvoiceItems(estimate.estimate_items ?? [], {
+          itemUrls: items,
+          depositPercentage: deposit_percentage,
+        });
+
+        const invoice: Record<string, unknown> = {
+          contact: estimate.contact,
+          dated_on: dated_on ?? estimate.dated_on,
+          payment_terms_in_days:
+            payment_terms_in_days ?? (await contactPaymentTerms(client, estimate.contact)),
+          invoice_items,
+        };
+        if (estimate.project) invoice.project = estimate.project;
+        if (estimate.currency) invoice.currency = estimate.currency;
+        if (estimate.reference) {
+          invoice.comments = deposit_percentage
+            ? `${deposit_percentage}% deposit for estimate ${estimate.reference}`
+            : `Converted from estimate ${estimate.reference}`;
+        }
+
+        const data = await client.postJson("/invoices", { invoice });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
 }
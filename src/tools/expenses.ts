@@ -1,9 +1,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import { attachmentSchema, buildAttachment } from "./attachments.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerExpenseTools(server: McpServer, client: FreeAgentClient): void {
+export function registerExpenseTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   server.tool(
     "freeagent_list_expenses",
     "List expenses from FreeAgent with optional filtering by view, date range, and project",
@@ -28,12 +41,13 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
         .string()
         .optional()
         .describe("Filter by project URL"),
+      ...paginationSchema,
     },
-    async ({ view, from_date, to_date, updated_since, project }) => {
-      logToolCall("freeagent_list_expenses", { view, from_date, to_date, updated_since, project });
+    async ({ view, from_date, to_date, updated_since, project, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_expenses", { view, from_date, to_date, updated_since, project, page, per_page, all_pages });
       try {
         const params = buildParams({ view, from_date, to_date, updated_since, project });
-        const data = await client.get("/expenses", params);
+        const data = await fetchList(client, "/expenses", "expenses", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -81,6 +95,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
         .string()
         .optional()
         .describe("Receipt reference for the expense"),
+      attachment: attachmentSchema.optional(),
     },
     async ({
       user,
@@ -93,6 +108,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
       project,
       rebill_type,
       receipt_reference,
+      attachment,
     }) => {
       logToolCall("freeagent_create_expense", { user, category, dated_on, gross_value });
       try {
@@ -108,6 +124,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
         if (project !== undefined) expense.project = project;
         if (rebill_type !== undefined) expense.rebill_type = rebill_type;
         if (receipt_reference !== undefined) expense.receipt_reference = receipt_reference;
+        if (attachment !== undefined) expense.attachment = await buildAttachment(attachment, options);
 
         const data = await client.postJson("/expenses", { expense });
         return jsonResponse(data);
@@ -141,6 +158,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
         .string()
         .optional()
         .describe("Receipt reference for the expense"),
+      attachment: attachmentSchema.optional(),
     },
     async ({
       expense_id,
@@ -151,6 +169,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
       sales_tax_rate,
       project,
       receipt_reference,
+      attachment,
     }) => {
       logToolCall("freeagent_update_expense", { expense_id });
       try {
@@ -162,6 +181,7 @@ export function registerExpenseTools(server: McpServer, client: FreeAgentClient)
         if (sales_tax_rate !== undefined) expense.sales_tax_rate = sales_tax_rate;
         if (project !== undefined) expense.project = project;
         if (receipt_reference !== undefined) expense.receipt_reference = receipt_reference;
+        if (attachment !== undefined) expense.attachment = await buildAttachment(attachment, options);
 
         const data = await client.putJson(`/expenses/${expense_id}`, { expense });
         return jsonResponse(data);
@@ -1,9 +1,226 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+  fileResponse,
+  listAll,
+  MAX_LIST_ITEMS,
+  type FileOptions,
+} from "../utils.js";
 
-export function registerInvoiceTools(server: McpServer, client: FreeAgentClient): void {
+export const INVOICE_ITEM_TYPES = [
+  "Hours",
+  "Days",
+  "Weeks",
+  "Months",
+  "Years",
+  "Products",
+  "Services",
+  "Training",
+  "Expenses",
+  "Comment",
+  "Bills",
+  "Discount",
+  "Credit",
+  "VAT",
+  "Rebilling",
+  "-no unit-",
+] as const;
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function decimal(field: string) {
+  return z.string().regex(DECIMAL_PATTERN, `${field} must be a decimal number, e.g. "10.50"`);
+}
+
+export const invoiceItemSchema = z.object({
+  item_type: z.enum(INVOICE_ITEM_TYPES).describe("Unit of the item"),
+  quantity: decimal("quantity").describe('Quantity as a decimal string, e.g. "7.5"'),
+  price: decimal("price").describe('Unit price as a decimal string, e.g. "450.00"'),
+  description: z.string().describe("Item description"),
+  sales_tax_rate: decimal("sales_tax_rate").optional().describe('Sales tax rate percentage, e.g. "20.0"'),
+  category: z.string().optional().describe("Category URL for the income"),
+  project: z.string().optional().describe("Project URL to attribute the item to"),
+});
+
+// New items need the same fields as on create; existing items are addressed
+// by URL and may be partially changed or removed with _destroy.
+export const invoiceItemUpdateSchema = invoiceItemSchema
+  .partial()
+  .extend({
+    url: z.string().optional().describe("URL of an existing invoice item to change or delete"),
+    _destroy: z.boolean().optional().describe("Delete the existing item identified by url"),
+  })
+  .superRefine((item, ctx) => {
+    if (item._destroy && !item.url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "_destroy requires the item url" });
+    }
+    if (!item.url && !item._destroy) {
+      for (const field of ["item_type", "quantity", "price", "description"] as const) {
+        if (item[field] === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `New invoice items need ${field} (or a url to change an existing item)`,
+          });
+        }
+      }
+    }
+  });
+
+// Payment terms used when neither the caller nor the contact sets any
+export const DEFAULT_PAYMENT_TERMS_IN_DAYS = 30;
+
+export async function contactPaymentTerms(
+  client: FreeAgentClient,
+  contactUrl: string
+): Promise<number> {
+  const { contact } = await client.get<{ contact: { default_payment_terms_in_days?: number } }>(
+    `/contacts/${contactUrl.split("/").pop()}`
+  );
+  return contact.default_payment_terms_in_days ?? DEFAULT_PAYMENT_TERMS_IN_DAYS;
+}
+
+export interface Timeslip {
+  url: string;
+  user: string;
+  task: string;
+  hours: string;
+}
+
+export interface Task {
+  url: string;
+  name?: string;
+  billing_rate?: string;
+  billing_period?: string;
+}
+
+export interface Project {
+  url: string;
+  contact: string;
+  currency?: string;
+  normal_billing_rate?: string;
+  billing_period?: string;
+  hours_per_day?: string;
+}
+
+export interface User {
+  url: string;
+  first_name: string;
+  last_name: string;
+}
+
+export interface TimeGroup {
+  description: string;
+  item_type: "Hours" | "Days" | "Weeks";
+  hours: number;
+  quantity: string;
+  price: string;
+  amount: string;
+  timeslips: string[];
+}
+
+type BillingPeriod = "hour" | "day" | "week";
+
+const PERIOD_ITEM_TYPES: Record<BillingPeriod, TimeGroup["item_type"]> = {
+  hour: "Hours",
+  day: "Days",
+  week: "Weeks",
+};
+
+function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Groups unbilled timeslips by task or user and prices each group at the
+ * task's billing rate, or the project's normal rate when the task has none.
+ * Day and week rates use the project's hours_per_day (default 8).
+ */
+export function priceUnbilledTime(
+  timeslips: Timeslip[],
+  tasks: Map<string, Task>,
+  users: Map<string, User>,
+  project: Project,
+  groupBy: "task" | "user"
+): { groups: TimeGroup[]; warnings: string[] } {
+  const hoursPerDay = Number(project.hours_per_day) || 8;
+  const hoursPerUnit: Record<BillingPeriod, number> = {
+    hour: 1,
+    day: hoursPerDay,
+    week: hoursPerDay * 5,
+  };
+  const warnings = new Set<string>();
+  const groups = new Map<string, TimeGroup & { owner: string; taskName: string }>();
+
+  for (const slip of timeslips) {
+    const task = tasks.get(slip.task);
+    const taskName = task?.name ?? slip.task;
+    const [rate, billingPeriod] = task?.billing_rate
+      ? [task.billing_rate, task.billing_period]
+      : [project.normal_billing_rate, project.billing_period];
+
+    let period = (billingPeriod ?? "hour") as BillingPeriod;
+    let price = Number(rate) || 0;
+    if (!(period in hoursPerUnit)) {
+      warnings.add(`${taskName}: ${period} billing periods cannot be priced from hours; billed at 0`);
+      period = "hour";
+      price = 0;
+    } else if (!price) {
+      warnings.add(`${taskName}: no billing rate on the task or project; billed at 0`);
+    }
+
+    const user = users.get(slip.user);
+    const userName = user ? `${user.first_name} ${user.last_name}` : slip.user;
+    const owner = groupBy === "task" ? slip.task : slip.user;
+    const key = `${owner}|${price}|${period}`;
+    const group = groups.get(key) ?? {
+      owner,
+      taskName,
+      description: groupBy === "task" ? taskName : userName,
+      item_type: PERIOD_ITEM_TYPES[period],
+      hours: 0,
+      quantity: "0",
+      price: price.toFixed(2),
+      amount: "0.00",
+      timeslips: [],
+    };
+    group.hours = roundTo2(group.hours + Number(slip.hours));
+    group.quantity = String(roundTo2(group.hours / hoursPerUnit[period]));
+    group.amount = (Number(group.quantity) * price).toFixed(2);
+    group.timeslips.push(slip.url);
+    groups.set(key, group);
+  }
+
+  // A user whose time is billed at several rates gets one line per rate
+  const linesPerOwner = new Map<string, number>();
+  for (const group of groups.values()) {
+    linesPerOwner.set(group.owner, (linesPerOwner.get(group.owner) ?? 0) + 1);
+  }
+  const result = [...groups.values()].map(({ owner, taskName, ...group }) =>
+    groupBy === "user" && linesPerOwner.get(owner)! > 1
+      ? { ...group, description: `${group.description} (${taskName})` }
+      : group
+  );
+  return { groups: result, warnings: [...warnings] };
+}
+
+// Converts an amount in the invoice currency to the bank account currency
+export function convertAmount(amount: string, exchangeRate: string): string {
+  return (Number(amount) * Number(exchangeRate)).toFixed(2);
+}
+
+export function registerInvoiceTools(
+  server: McpServer,
+  client: FreeAgentClient,
+  options: FileOptions = {}
+): void {
   // List invoices
   server.tool(
     "freeagent_list_invoices",
@@ -15,12 +232,13 @@ export function registerInvoiceTools(server: McpServer, client: FreeAgentClient)
       project: z.string().optional().describe("Filter by project URL"),
       updated_since: z.string().optional().describe("Filter invoices updated since this date (ISO 8601)"),
       nested_invoice_items: z.boolean().optional().describe("Whether to include nested invoice items in the response"),
+      ...paginationSchema,
     },
-    async ({ view, sort, contact, project, updated_since, nested_invoice_items }) => {
-      logToolCall("freeagent_list_invoices", { view, sort, contact, project, updated_since, nested_invoice_items });
+    async ({ view, sort, contact, project, updated_since, nested_invoice_items, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_invoices", { view, sort, contact, project, updated_since, nested_invoice_items, page, per_page, all_pages });
       try {
         const params = buildParams({ view, sort, contact, project, updated_since, nested_invoice_items });
-        const data = await client.get("/invoices", params);
+        const data = await fetchList(client, "/invoices", "invoices", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -60,18 +278,15 @@ export function registerInvoiceTools(server: McpServer, client: FreeAgentClient)
       payment_methods: z.string().optional().describe("Payment methods"),
       comments: z.string().optional().describe("Comments to appear on the invoice"),
       ec_status: z.string().optional().describe("EC status for EU VAT"),
-      invoice_items: z.string().optional().describe("JSON string of array of invoice items. Each item has fields: item_type (Hours/Days/Weeks/Months/Years/Products/Comment/Rebilling), quantity (string), price (string), description (string)"),
+      invoice_items: z.array(invoiceItemSchema).optional().describe("Invoice line items"),
     },
-    async ({ invoice_items, ...rest }) => {
-      logToolCall("freeagent_create_invoice", { ...rest, invoice_items });
+    async (params) => {
+      logToolCall("freeagent_create_invoice", { ...params, invoice_items: params.invoice_items?.length });
       try {
         const invoice: Record<string, unknown> = {};
-        for (const [k, v] of Object.entries(rest)) {
+        for (const [k, v] of Object.entries(params)) {
           if (v !== undefined) invoice[k] = v;
         }
-        if (invoice_items) {
-          invoice.invoice_items = JSON.parse(invoice_items);
-        }
         const data = await client.postJson("/invoices", { invoice });
         return jsonResponse(data);
       } catch (error) {
@@ -91,9 +306,13 @@ export function registerInvoiceTools(server: McpServer, client: FreeAgentClient)
       reference: z.string().optional().describe("Invoice reference"),
       currency: z.string().optional().describe("Currency code"),
       comments: z.string().optional().describe("Comments to appear on the invoice"),
+      invoice_items: z
+        .array(invoiceItemUpdateSchema)
+        .optional()
+        .describe("Items to add (no url), change (url plus changed fields) or delete (url with _destroy: true)"),
     },
     async ({ invoice_id, ...rest }) => {
-      logToolCall("freeagent_update_invoice", { invoice_id, ...rest });
+      logToolCall("freeagent_update_invoice", { invoice_id, ...rest, invoice_items: rest.invoice_items?.length });
       try {
         const invoice: Record<string, unknown> = {};
         for (const [k, v] of Object.entries(rest)) {
@@ -204,4 +423,208 @@ export function registerInvoiceTools(server: McpServer, client: FreeAgentClient)
       }
     }
   );
+
+  // Record invoice payment
+  server.tool(
+    "freeagent_record_invoice_payment",
+    "Record a payment against an invoice by creating a bank transaction explanation. Supports partial payments, payments received in another currency, and writing off the outstanding balance as a bad debt",
+    {
+      invoice_id: z.string().describe("The invoice ID"),
+      bank_account: z
+        .string()
+        .optional()
+        .describe("URL of the bank account the money was received into"),
+      bank_transaction: z
+        .string()
+        .optional()
+        .describe("URL of an existing unexplained bank transaction to explain instead of creating a new entry"),
+      dated_on: z.string().describe("Payment date, or the write-off date with write_off (YYYY-MM-DD)"),
+      amount: decimal("amount")
+        .optional()
+        .describe("Amount paid in the invoice currency. Defaults to the outstanding balance"),
+      exchange_rate: decimal("exchange_rate")
+        .optional()
+        .describe("Invoice currency to bank currency rate, for payments received into an account in another currency"),
+      write_off: z
+        .boolean()
+        .optional()
+        .describe("Write the whole outstanding balance off as a bad debt on dated_on instead of recording money received"),
+      description: z.string().optional().describe("Description for the explanation"),
+    },
+    async ({ invoice_id, bank_account, bank_transaction, dated_on, amount, exchange_rate, write_off, description }) => {
+      logToolCall("freeagent_record_invoice_payment", { invoice_id, bank_account, bank_transaction, dated_on, amount, exchange_rate, write_off });
+      try {
+        if (write_off) {
+          if (bank_account || bank_transaction || amount !== undefined || exchange_rate !== undefined) {
+            throw new Error(
+              "write_off writes off the whole outstanding balance; leave out bank_account, bank_transaction, amount and exchange_rate"
+            );
+          }
+        } else if (!bank_account && !bank_transaction) {
+          throw new Error("Provide bank_account or bank_transaction");
+        }
+
+        const { invoice } = await client.get<{ invoice: { url: string; due_value?: string } }>(
+          `/invoices/${invoice_id}`
+        );
+        const paid = amount ?? String(invoice.due_value);
+        if (!(Number(paid) > 0)) {
+          throw new Error(`Invoice ${invoice_id} has nothing outstanding to record`);
+        }
+
+        // FreeAgent books the balance of an invoice with a write-off date to
+        // bad debts; no money moves, so there is no bank explanation
+        if (write_off) {
+          const data = await client.putJson(`/invoices/${invoice_id}`, {
+            invoice: { written_off_date: dated_on },
+          });
+          return jsonResponse(data);
+        }
+
+        const explanation: Record<string, unknown> = {
+          paid_invoice: invoice.url,
+          dated_on,
+        };
+        if (bank_transaction !== undefined) explanation.bank_transaction = bank_transaction;
+        else explanation.bank_account = bank_account;
+        if (exchange_rate !== undefined) {
+          explanation.gross_value = convertAmount(paid, exchange_rate);
+          explanation.foreign_currency_value = paid;
+        } else {
+          explanation.gross_value = paid;
+        }
+        if (description !== undefined) explanation.description = description;
+
+        const data = await client.postJson<Record<string, unknown>>(
+          "/bank_transaction_explanations",
+          { bank_transaction_explanation: explanation }
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Download invoice PDF
+  server.tool(
+    "freeagent_get_invoice_pdf",
+    "Download an invoice as a PDF, returned as an embedded resource or saved to the server's output directory",
+    {
+      invoice_id: z.string().describe("The invoice ID"),
+      save: z
+        .boolean()
+        .optional()
+        .describe("Save invoice-<id>.pdf in the server's output directory (FREEAGENT_OUTPUT_DIR) and return its path instead of the PDF"),
+    },
+    async ({ invoice_id, save }) => {
+      logToolCall("freeagent_get_invoice_pdf", { invoice_id, save });
+      try {
+        const file = await client.getBinary(`/invoices/${invoice_id}/pdf`);
+        return await fileResponse(
+          file,
+          `freeagent://invoices/${invoice_id}/pdf`,
+          `invoice-${invoice_id}.pdf`,
+          save,
+          options
+        );
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Invoice unbilled time
+  server.tool(
+    "freeagent_invoice_unbilled_time",
+    "Create a draft invoice for a project's unbilled timeslips, grouped by task or user and priced at the task or project billing rate. Use preview to see the totals first",
+    {
+      project_id: z.string().describe("The project ID"),
+      group_by: z
+        .enum(["task", "user"])
+        .optional()
+        .describe("One invoice item per task (default) or per user"),
+      from_date: z.string().optional().describe("Only include time from this date (YYYY-MM-DD)"),
+      to_date: z.string().optional().describe("Only include time up to this date (YYYY-MM-DD)"),
+      dated_on: z.string().optional().describe("Invoice date (YYYY-MM-DD). Defaults to today"),
+      payment_terms_in_days: z
+        .number()
+        .optional()
+        .describe("Payment terms in days. Defaults to the contact's terms"),
+      preview: z
+        .boolean()
+        .optional()
+        .describe("Return the grouped totals without creating an invoice"),
+    },
+    async ({ project_id, group_by, from_date, to_date, dated_on, payment_terms_in_days, preview }) => {
+      logToolCall("freeagent_invoice_unbilled_time", { project_id, group_by, from_date, to_date, dated_on, preview });
+      try {
+        const { project } = await client.get<{ project: Project }>(`/projects/${project_id}`);
+        const timeslipList = await client.getAllPages(
+          "/timeslips",
+          "timeslips",
+          buildParams({ view: "unbilled", project: project.url, from_date, to_date }),
+          MAX_LIST_ITEMS
+        );
+        // Billing part of the time would understate the invoice
+        if (timeslipList.truncated) {
+          throw new Error(
+            `Project ${project_id} has more than ${MAX_LIST_ITEMS} unbilled timeslips in that period. ` +
+              "Invoice a shorter period with from_date and to_date"
+          );
+        }
+        const timeslips = timeslipList.items as Timeslip[];
+        if (timeslips.length === 0) {
+          throw new Error(`Project ${project_id} has no unbilled time in that period`);
+        }
+
+        const lookupWarnings: string[] = [];
+        const taskList = await listAll<Task>(client, "/tasks", "tasks", { project: project.url }, lookupWarnings);
+        const tasks = new Map(taskList.map((task) => [task.url, task]));
+        const users = new Map<string, User>();
+        if (group_by === "user") {
+          for (const user of await listAll<User>(client, "/users", "users", {}, lookupWarnings)) {
+            users.set(user.url, user);
+          }
+        }
+
+        const priced = priceUnbilledTime(
+          timeslips,
+          tasks,
+          users,
+          project,
+          group_by ?? "task"
+        );
+        const groups = priced.groups;
+        const warnings = [...lookupWarnings, ...priced.warnings];
+        const total = groups.reduce((sum, group) => sum + Number(group.amount), 0).toFixed(2);
+
+        if (preview) {
+          return jsonResponse({ preview: true, currency: project.currency, groups, total, warnings });
+        }
+
+        const invoice: Record<string, unknown> = {
+          contact: project.contact,
+          project: project.url,
+          dated_on: dated_on ?? new Date().toISOString().slice(0, 10),
+          payment_terms_in_days:
+            payment_terms_in_days ?? (await contactPaymentTerms(client, project.contact)),
+          // Linking each item to its timeslips makes FreeAgent mark them billed
+          invoice_items: groups.map((group) => ({
+            item_type: group.item_type,
+            quantity: group.quantity,
+            price: group.price,
+            description: group.description,
+            timeslips: group.timeslips,
+          })),
+        };
+        if (project.currency) invoice.currency = project.currency;
+
+        const data = await client.postJson<Record<string, unknown>>("/invoices", { invoice });
+        return jsonResponse({ ...data, total, warnings });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
 }
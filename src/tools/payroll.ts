@@ -0,0 +1,282 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { FreeAgentClient } from "../client.js";
+import { jsonResponse, errorResponse, logToolCall, cents, money } from "../utils.js";
+
+export interface PayRun {
+  url?: string;
+  period: number;
+  frequency?: string;
+  dated_on?: string;
+  status?: string;
+  payslips?: Payslip[];
+}
+
+export interface Payslip {
+  user: string;
+  dated_on?: string;
+  tax_code?: string;
+  [field: string]: unknown;
+}
+
+export interface PayslipSummary {
+  user: string;
+  dated_on?: string;
+  tax_code?: string;
+  gross_pay: string;
+  tax: string;
+  employee_ni: string;
+  employer_ni: string;
+  employee_pension: string;
+  employer_pension: string;
+  student_loan: string;
+  other_deductions: string;
+  net_pay: string;
+}
+
+// Payslip fields that add up to gross pay
+const PAY_FIELDS = [
+  "basic_pay",
+  "overtime",
+  "commission",
+  "bonus",
+  "allowance",
+  "statutory_sick_pay",
+  "statutory_maternity_pay",
+  "statutory_paternity_pay",
+  "statutory_adoption_pay",
+  "statutory_parental_bereavement_pay",
+  "shared_parental_pay",
+  "absence_payments",
+  "other_payments",
+];
+
+/**
+ * Reduces a FreeAgent payslip to gross pay, each deduction and net pay. Net
+ * pay is calculated when the payslip does not include it.
+ */
+export function summarisePayslip(payslip: Payslip): PayslipSummary {
+  const gross = PAY_FIELDS.reduce((sum, field) => sum + cents(payslip[field]), 0);
+  const tax = cents(payslip.tax_deducted);
+  const employeeNi = cents(payslip.employee_ni);
+  const employeePension = cents(payslip.employee_pension);
+  const studentLoan = cents(payslip.student_loan_deduction) + cents(payslip.postgrad_loan_deduction);
+  const otherDeductions = cents(payslip.other_deductions) + cents(payslip.deductions);
+  const net =
+    payslip.net_pay !== undefined
+      ? cents(payslip.net_pay)
+      : gross - tax - employeeNi - employeePension - studentLoan - otherDeductions;
+
+  return {
+    user: payslip.user,
+    dated_on: payslip.dated_on,
+    tax_code: payslip.tax_code,
+    gross_pay: money(gross),
+    tax: money(tax),
+    employee_ni: money(employeeNi),
+    employer_ni: money(cents(payslip.employer_ni)),
+    employee_pension: money(employeePension),
+    employer_pension: money(cents(payslip.employer_pension)),
+    student_loan: money(studentLoan),
+    other_deductions: money(otherDeductions),
+    net_pay: money(net),
+  };
+}
+
+const AMOUNT_FIELDS = [
+  "gross_pay",
+  "tax",
+  "employee_ni",
+  "employer_ni",
+  "employee_pension",
+  "employer_pension",
+  "student_loan",
+  "other_deductions",
+  "net_pay",
+] as const;
+
+type PayTotals = Record<(typeof AMOUNT_FIELDS)[number], string>;
+
+/** Adds up the amounts of several payslip summaries */
+export function totalPayslips(summaries: PayslipSummary[]): PayTotals {
+  const totals = {} as PayTotals;
+  for (const field of AMOUNT_FIELDS) {
+    totals[field] = money(summaries.reduce((sum, s) => sum + cents(s[field]), 0));
+  }
+  return totals;
+}
+
+// The tax month a pay date falls in. Tax months run from the 6th to the 5th,
+// and month 1 starts on 6 April.
+function taxMonth(date: string): { tax_month: number; starts_on: string; ends_on: string } {
+  const [year, month, day] = date.split("-").map(Number);
+  const start = new Date(Date.UTC(year, month - 1 - (day < 6 ? 1 : 0), 6));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 5));
+  return {
+    tax_month: ((start.getUTCMonth() + 9) % 12) + 1,
+    starts_on: start.toISOString().slice(0, 10),
+    ends_on: end.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Employer's PAYE and NI liability per tax month of pay date, matching the
+ * periods HMRC payments are due for: income tax and student loan
+ * deductions, plus employee and employer NI.
+ */
+export function monthlyLiabilities(summaries: PayslipSummary[]) {
+  const months = new Map<string, { paye: number; employee_ni: number; employer_ni: number }>();
+  for (const summary of summaries) {
+    const key = summary.dated_on ? taxMonth(summary.dated_on).starts_on : "unknown";
+    const entry = months.get(key) ?? { paye: 0, employee_ni: 0, employer_ni: 0 };
+    entry.paye += cents(summary.tax) + cents(summary.student_loan);
+    entry.employee_ni += cents(summary.employee_ni);
+    entry.employer_ni += cents(summary.employer_ni);
+    months.set(key, entry);
+  }
+  return [...months]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, { paye, employee_ni, employer_ni }]) => ({
+      ...(key === "unknown" ? { tax_month: null, starts_on: null, ends_on: null } : taxMonth(key)),
+      paye: money(paye),
+      employee_ni: money(employee_ni),
+      employer_ni: money(employer_ni),
+      total: money(paye + employee_ni + employer_ni),
+    }));
+}
+
+function matchesUser(payslip: Payslip, user: string): boolean {
+  return payslip.user === user || payslip.user.endsWith(`/users/${user}`);
+}
+
+const yearSchema = z
+  .number()
+  .int()
+  .describe("Tax year, given by the year it ends in, e.g. 2025 for 2024/25");
+
+// Fetches every pay run in a tax year with its payslips, dating each payslip
+// by its run when it has no date of its own
+async function payRunsWithPayslips(
+  client: FreeAgentClient,
+  year: number
+): Promise<{ runs: PayRun[]; payments: unknown[] }> {
+  const { periods = [], payments = [] } = await client.get<{
+    periods?: PayRun[];
+    payments?: unknown[];
+  }>(`/payroll/${year}`);
+  const runs: PayRun[] = [];
+  for (const run of periods) {
+    const { period } = await client.get<{ period: PayRun }>(`/payroll/${year}/${run.period}`);
+    const payslips = (period.payslips ?? []).map((payslip) => ({
+      ...payslip,
+      dated_on: payslip.dated_on ?? period.dated_on,
+    }));
+    runs.push({ ...period, payslips });
+  }
+  return { runs, payments };
+}
+
+export function registerPayrollTools(server: McpServer, client: FreeAgentClient): void {
+  // List pay runs
+  server.tool(
+    "freeagent_list_pay_runs",
+    "List the payroll pay runs for a tax year, with their pay dates and status, and the PAYE payments due to HMRC",
+    {
+      year: yearSchema,
+      period: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only return this pay period (1-12 for monthly payroll)"),
+    },
+    async ({ year, period }) => {
+      logToolCall("freeagent_list_pay_runs", { year, period });
+      try {
+        const data = await client.get<{ periods?: PayRun[]; payments?: unknown[] }>(
+          `/payroll/${year}`
+        );
+        const periods = data.periods ?? [];
+        return jsonResponse({
+          ...data,
+          periods: period === undefined ? periods : periods.filter((run) => run.period === period),
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Payslips in a pay run
+  server.tool(
+    "freeagent_get_payslips",
+    "Get the payslips in a pay run, summarised per user as gross pay, tax, NI, pension and net pay",
+    {
+      year: yearSchema,
+      period: z.number().int().min(0).describe("The pay period within the tax year"),
+      user: z.string().optional().describe("Only include payslips for this user URL or ID"),
+    },
+    async ({ year, period, user }) => {
+      logToolCall("freeagent_get_payslips", { year, period, user });
+      try {
+        const { period: run } = await client.get<{ period: PayRun }>(`/payroll/${year}/${period}`);
+        const payslips = (run.payslips ?? [])
+          .filter((payslip) => !user || matchesUser(payslip, user))
+          .map(summarisePayslip);
+        return jsonResponse({
+          year,
+          period,
+          dated_on: run.dated_on,
+          status: run.status,
+          payslips,
+          totals: totalPayslips(payslips),
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // A user's pay over a tax year
+  server.tool(
+    "freeagent_get_user_pay_summary",
+    "Total what a user was paid in a tax year, with each payslip, by reading every pay run in the year",
+    {
+      year: yearSchema,
+      user: z.string().describe("User URL or ID, as used by the user tools"),
+    },
+    async ({ year, user }) => {
+      logToolCall("freeagent_get_user_pay_summary", { year, user });
+      try {
+        const { runs } = await payRunsWithPayslips(client, year);
+        const payslips = runs.flatMap((run) =>
+          (run.payslips ?? [])
+            .filter((payslip) => matchesUser(payslip, user))
+            .map((payslip) => ({ period: run.period, ...summarisePayslip(payslip) }))
+        );
+        return jsonResponse({ year, user, payslips, totals: totalPayslips(payslips) });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Employer PAYE/NI liability
+  server.tool(
+    "freeagent_get_payroll_liabilities",
+    "Summarise the employer's PAYE and NI liability per tax month (6th to 5th) for a tax year, alongside the HMRC payments FreeAgent lists",
+    {
+      year: yearSchema,
+    },
+    async ({ year }) => {
+      logToolCall("freeagent_get_payroll_liabilities", { year });
+      try {
+        const { runs, payments } = await payRunsWithPayslips(client, year);
+        const summaries = runs.flatMap((run) => (run.payslips ?? []).map(summarisePayslip));
+        return jsonResponse({ year, months: monthlyLiabilities(summaries), payments });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+}
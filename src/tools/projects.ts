@@ -1,7 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+} from "../utils.js";
 
 export function registerProjectTools(server: McpServer, client: FreeAgentClient): void {
   // List projects
@@ -12,12 +19,13 @@ export function registerProjectTools(server: McpServer, client: FreeAgentClient)
       view: z.enum(["active", "completed", "cancelled", "hidden"]).optional().describe("Filter projects by status view"),
       sort: z.string().optional().describe("Sort order for results"),
       contact: z.string().optional().describe("Filter by contact URL"),
+      ...paginationSchema,
     },
-    async ({ view, sort, contact }) => {
-      logToolCall("freeagent_list_projects", { view, sort, contact });
+    async ({ view, sort, contact, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_projects", { view, sort, contact, page, per_page, all_pages });
       try {
         const params = buildParams({ view, sort, contact });
-        const data = await client.get("/projects", params);
+        const data = await fetchList(client, "/projects", "projects", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
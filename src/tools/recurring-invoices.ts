@@ -0,0 +1,160 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { FreeAgentClient } from "../client.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  listAll,
+  paginationSchema,
+  cents,
+  money,
+} from "../utils.js";
+import { projectRecurringInvoices, type RecurringInvoice } from "../recurrence.js";
+
+const FREQUENCIES = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annually: "Annually",
+} as const;
+
+const dateSchema = (name: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be YYYY-MM-DD`);
+
+export function registerRecurringInvoiceTools(
+  server: McpServer,
+  client: FreeAgentClient
+): void {
+  // List recurring invoices
+  server.tool(
+    "freeagent_list_recurring_invoices",
+    "List recurring invoice profiles from FreeAgent",
+    {
+      view: z
+        .enum(["draft", "active", "inactive"])
+        .optional()
+        .describe("Filter recurring invoices by status"),
+      contact: z.string().optional().describe("Filter by contact URL"),
+      ...paginationSchema,
+    },
+    async ({ view, contact, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_recurring_invoices", { view, contact, page, per_page, all_pages });
+      try {
+        const params = buildParams({ view, contact });
+        const data = await fetchList(client, "/recurring_invoices", "recurring_invoices", params, {
+          page,
+          per_page,
+          all_pages,
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Get recurring invoice
+  server.tool(
+    "freeagent_get_recurring_invoice",
+    "Get a single recurring invoice profile from FreeAgent by ID",
+    {
+      recurring_invoice_id: z.string().describe("The recurring invoice ID"),
+    },
+    async ({ recurring_invoice_id }) => {
+      logToolCall("freeagent_get_recurring_invoice", { recurring_invoice_id });
+      try {
+        const data = await client.get(`/recurring_invoices/${recurring_invoice_id}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Set invoice recurrence
+  server.tool(
+    "freeagent_set_invoice_recurrence",
+    "Make a draft invoice recur on a schedule, optionally until an end date and with automatic emailing",
+    {
+      invoice_id: z.string().describe("The ID of the draft invoice"),
+      frequency: z
+        .enum(["weekly", "monthly", "quarterly", "annually"])
+        .describe("How often a new invoice is raised"),
+      recurring_end_date: z
+        .string()
+        .optional()
+        .describe("Last date an invoice may be raised (YYYY-MM-DD). Recurs indefinitely when omitted"),
+      send_new_invoice_emails: z
+        .boolean()
+        .optional()
+        .describe("Email each new invoice to the contact automatically"),
+    },
+    async ({ invoice_id, frequency, recurring_end_date, send_new_invoice_emails }) => {
+      logToolCall("freeagent_set_invoice_recurrence", { invoice_id, frequency, recurring_end_date, send_new_invoice_emails });
+      try {
+        const { invoice } = await client.get<{ invoice: { status?: string } }>(
+          `/invoices/${invoice_id}`
+        );
+        if (invoice.status !== "Draft") {
+          throw new Error(
+            `Invoice ${invoice_id} is ${invoice.status ?? "not a draft"}; only draft invoices can be made recurring`
+          );
+        }
+
+        const recurring_invoice: Record<string, unknown> = {
+          frequency: FREQUENCIES[frequency],
+        };
+        if (recurring_end_date !== undefined) recurring_invoice.recurring_end_date = recurring_end_date;
+        if (send_new_invoice_emails !== undefined) {
+          recurring_invoice.send_new_invoice_emails = send_new_invoice_emails;
+        }
+
+        const data = await client.putJson(`/invoices/${invoice_id}`, {
+          invoice: { recurring_invoice },
+        });
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Project upcoming recurring invoices
+  server.tool(
+    "freeagent_project_recurring_invoices",
+    "Project the invoices active recurring profiles will raise in a date range, with totals per currency",
+    {
+      from_date: dateSchema("from_date").describe("Start of the range (YYYY-MM-DD)"),
+      to_date: dateSchema("to_date").describe("End of the range (YYYY-MM-DD)"),
+      contact: z.string().optional().describe("Only include profiles for this contact URL"),
+    },
+    async ({ from_date, to_date, contact }) => {
+      logToolCall("freeagent_project_recurring_invoices", { from_date, to_date, contact });
+      try {
+        if (from_date > to_date) throw new Error("from_date must not be after to_date");
+        const warnings: string[] = [];
+        const profiles = await listAll<RecurringInvoice>(
+          client,
+          "/recurring_invoices",
+          "recurring_invoices",
+          buildParams({ view: "active", contact }),
+          warnings
+        );
+        const invoices = projectRecurringInvoices(profiles, from_date, to_date);
+
+        const sums = new Map<string, number>();
+        for (const invoice of invoices) {
+          const currency = invoice.currency ?? "unknown";
+          sums.set(currency, (sums.get(currency) ?? 0) + cents(invoice.total_value));
+        }
+        const totals = Object.fromEntries([...sums].map(([currency, sum]) => [currency, money(sum)]));
+        return jsonResponse({ invoices, totals, warnings });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+}
@@ -1,7 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+} from "../utils.js";
 
 export function registerTaskTools(server: McpServer, client: FreeAgentClient): void {
   // List tasks
@@ -25,13 +32,18 @@ export function registerTaskTools(server: McpServer, client: FreeAgentClient): v
           .string()
           .optional()
           .describe("Only return tasks updated since this date (ISO 8601)"),
+        ...paginationSchema,
       },
     },
-    async ({ view, sort, project, updated_since }) => {
-      logToolCall("freeagent_list_tasks", { view, sort, project, updated_since });
+    async ({ view, sort, project, updated_since, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_tasks", { view, sort, project, updated_since, page, per_page, all_pages });
       try {
         const params = buildParams({ view, sort, project, updated_since });
-        const response = await client.get("/tasks", params);
+        const response = await fetchList(client, "/tasks", "tasks", params, {
+          page,
+          per_page,
+          all_pages,
+        });
         return jsonResponse(response);
       } catch (error) {
         return errorResponse(error);
@@ -0,0 +1,305 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { FreeAgentClient } from "../client.js";
+import { jsonResponse, errorResponse, logToolCall } from "../utils.js";
+
+interface TaxReturn {
+  period_ends_on?: string;
+}
+
+/** Keeps the returns whose period ends between `from` and `to` (inclusive) */
+export function filterReturnsByPeriod<T extends TaxReturn>(
+  returns: T[],
+  from: string | undefined,
+  to: string | undefined
+): T[] {
+  return returns.filter(
+    ({ period_ends_on }) =>
+      (!from || (period_ends_on !== undefined && period_ends_on >= from)) &&
+      (!to || (period_ends_on !== undefined && period_ends_on <= to))
+  );
+}
+
+const dateSchema = (name: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be YYYY-MM-DD`);
+
+const periodEndsOnSchema = dateSchema("period_ends_on").describe(
+  "Last day of the return's period (YYYY-MM-DD), which identifies the return"
+);
+
+// A self assessment return has a balancing payment and up to two payments on
+// account, each identified by its due date
+const paymentDateSchema = dateSchema("payment_date").describe(
+  "Due date of the payment (YYYY-MM-DD), as listed in the return's payments"
+);
+
+const userIdSchema = z.string().describe("The ID of the user (director or partner) the return belongs to");
+
+const periodRangeSchema = {
+  from_date: z.string().optional().describe("Only include periods ending on or after this date (YYYY-MM-DD)"),
+  to_date: z.string().optional().describe("Only include periods ending on or before this date (YYYY-MM-DD)"),
+};
+
+export function registerTaxReturnTools(server: McpServer, client: FreeAgentClient): void {
+  // List corporation tax returns
+  server.tool(
+    "freeagent_list_corporation_tax_returns",
+    "List corporation tax returns from FreeAgent with their accounting periods, liabilities, due dates and filing status",
+    periodRangeSchema,
+    async ({ from_date, to_date }) => {
+      logToolCall("freeagent_list_corporation_tax_returns", { from_date, to_date });
+      try {
+        const data = await client.get<{ corporation_tax_returns?: TaxReturn[] }>(
+          "/corporation_tax_returns"
+        );
+        return jsonResponse({
+          corporation_tax_returns: filterReturnsByPeriod(
+            data.corporation_tax_returns ?? [],
+            from_date,
+            to_date
+          ),
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Get corporation tax return
+  server.tool(
+    "freeagent_get_corporation_tax_return",
+    "Get a corporation tax return from FreeAgent, including the computed liability and payment due date",
+    {
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_get_corporation_tax_return", { period_ends_on });
+      try {
+        const data = await client.get(`/corporation_tax_returns/${period_ends_on}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark corporation tax return as filed
+  server.tool(
+    "freeagent_mark_corporation_tax_return_as_filed",
+    "Mark a corporation tax return as filed in FreeAgent, for returns submitted outside FreeAgent",
+    {
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_corporation_tax_return_as_filed", { period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/corporation_tax_returns/${period_ends_on}/mark_as_filed`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark corporation tax return as unfiled
+  server.tool(
+    "freeagent_mark_corporation_tax_return_as_unfiled",
+    "Mark a corporation tax return as unfiled in FreeAgent",
+    {
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_corporation_tax_return_as_unfiled", { period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/corporation_tax_returns/${period_ends_on}/mark_as_unfiled`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark corporation tax return as paid
+  server.tool(
+    "freeagent_mark_corporation_tax_return_as_paid",
+    "Mark a corporation tax return as paid in FreeAgent",
+    {
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_corporation_tax_return_as_paid", { period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/corporation_tax_returns/${period_ends_on}/mark_as_paid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark corporation tax return as unpaid
+  server.tool(
+    "freeagent_mark_corporation_tax_return_as_unpaid",
+    "Mark a corporation tax return as unpaid in FreeAgent",
+    {
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_corporation_tax_return_as_unpaid", { period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/corporation_tax_returns/${period_ends_on}/mark_as_unpaid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // List self assessment returns
+  server.tool(
+    "freeagent_list_self_assessment_returns",
+    "List a user's self assessment returns from FreeAgent with their tax years, liabilities, payments and filing status",
+    {
+      user_id: userIdSchema,
+      ...periodRangeSchema,
+    },
+    async ({ user_id, from_date, to_date }) => {
+      logToolCall("freeagent_list_self_assessment_returns", { user_id, from_date, to_date });
+      try {
+        const data = await client.get<{ self_assessment_returns?: TaxReturn[] }>(
+          `/users/${user_id}/self_assessment_returns`
+        );
+        return jsonResponse({
+          self_assessment_returns: filterReturnsByPeriod(
+            data.self_assessment_returns ?? [],
+            from_date,
+            to_date
+          ),
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Get self assessment return
+  server.tool(
+    "freeagent_get_self_assessment_return",
+    "Get a user's self assessment return from FreeAgent, including the computed liability and payments on account",
+    {
+      user_id: userIdSchema,
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ user_id, period_ends_on }) => {
+      logToolCall("freeagent_get_self_assessment_return", { user_id, period_ends_on });
+      try {
+        const data = await client.get(`/users/${user_id}/self_assessment_returns/${period_ends_on}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark self assessment return as filed
+  server.tool(
+    "freeagent_mark_self_assessment_return_as_filed",
+    "Mark a self assessment return as filed in FreeAgent, for returns submitted outside FreeAgent",
+    {
+      user_id: userIdSchema,
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ user_id, period_ends_on }) => {
+      logToolCall("freeagent_mark_self_assessment_return_as_filed", { user_id, period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/users/${user_id}/self_assessment_returns/${period_ends_on}/mark_as_filed`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark self assessment return as unfiled
+  server.tool(
+    "freeagent_mark_self_assessment_return_as_unfiled",
+    "Mark a self assessment return as unfiled in FreeAgent",
+    {
+      user_id: userIdSchema,
+      period_ends_on: periodEndsOnSchema,
+    },
+    async ({ user_id, period_ends_on }) => {
+      logToolCall("freeagent_mark_self_assessment_return_as_unfiled", { user_id, period_ends_on });
+      try {
+        const data = await client.putJson(
+          `/users/${user_id}/self_assessment_returns/${period_ends_on}/mark_as_unfiled`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark self assessment payment as paid
+  server.tool(
+    "freeagent_mark_self_assessment_payment_as_paid",
+    "Mark a self assessment payment (balancing payment or payment on account) as paid in FreeAgent",
+    {
+      user_id: userIdSchema,
+      period_ends_on: periodEndsOnSchema,
+      payment_date: paymentDateSchema,
+    },
+    async ({ user_id, period_ends_on, payment_date }) => {
+      logToolCall("freeagent_mark_self_assessment_payment_as_paid", { user_id, period_ends_on, payment_date });
+      try {
+        const data = await client.putJson(
+          `/users/${user_id}/self_assessment_returns/${period_ends_on}/payments/${payment_date}/mark_as_paid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark self assessment payment as unpaid
+  server.tool(
+    "freeagent_mark_self_assessment_payment_as_unpaid",
+    "Mark a self assessment payment as unpaid in FreeAgent",
+    {
+      user_id: userIdSchema,
+      period_ends_on: periodEndsOnSchema,
+      payment_date: paymentDateSchema,
+    },
+    async ({ user_id, period_ends_on, payment_date }) => {
+      logToolCall("freeagent_mark_self_assessment_payment_as_unpaid", { user_id, period_ends_on, payment_date });
+      try {
+        const data = await client.putJson(
+          `/users/${user_id}/self_assessment_returns/${period_ends_on}/payments/${payment_date}/mark_as_unpaid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+}
@@ -1,7 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+} from "../utils.js";
 
 export function registerTimeslipTools(
   server: McpServer,
@@ -43,6 +50,7 @@ export function registerTimeslipTools(
           .string()
           .optional()
           .describe("Filter by project URL"),
+        ...paginationSchema,
       },
     },
     async (args) => {
@@ -57,7 +65,11 @@ export function registerTimeslipTools(
           task: args.task,
           project: args.project,
         });
-        const response = await client.get("/timeslips", params);
+        const response = await fetchList(client, "/timeslips", "timeslips", params, {
+          page: args.page,
+          per_page: args.per_page,
+          all_pages: args.all_pages,
+        });
         return jsonResponse(response);
       } catch (error) {
         return errorResponse(error);
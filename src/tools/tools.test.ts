@@ -1,11 +1,33 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, truncateSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type { FreeAgentClient } from "../client.js";
 import { registerCompanyTools } from "./company.js";
 import { registerContactTools } from "./contacts.js";
-import { registerInvoiceTools } from "./invoices.js";
+import {
+  registerInvoiceTools,
+  priceUnbilledTime,
+  invoiceItemSchema,
+  invoiceItemUpdateSchema,
+  type Task,
+  type User,
+} from "./invoices.js";
+import { registerRecurringInvoiceTools } from "./recurring-invoices.js";
+import { registerCreditNoteTools } from "./credit-notes.js";
+import { registerEstimateTools, estimateToInvoiceItems } from "./estimates.js";
 import { registerExpenseTools } from "./expenses.js";
+import { registerBillTools } from "./bills.js";
 import { registerBankingTools } from "./banking.js";
-import { registerAccountingTools } from "./accounting.js";
+import { registerAccountingTools, journalEntries } from "./accounting.js";
+import { registerPayrollTools, summarisePayslip, monthlyLiabilities } from "./payroll.js";
+import { registerTaxReturnTools, filterReturnsByPeriod } from "./tax-returns.js";
+import { registerVatReturnTools, vatBoxTransactions, type VatSources } from "./vat-returns.js";
+import {
+  registerAttachmentTools,
+  buildAttachment,
+  MAX_ATTACHMENT_BYTES,
+} from "./attachments.js";
 
 type ToolHandler = (...args: any[]) => any;
 
@@ -33,12 +55,21 @@ function createMockServer() {
 function createMockClient() {
   return {
     get: vi.fn().mockResolvedValue({ data: "mock" }),
+    getPage: vi
+      .fn()
+      .mockResolvedValue({ data: { data: "mock" }, pagination: { page: 1, per_page: 50 } }),
+    getAllPages: vi
+      .fn()
+      .mockResolvedValue({ items: [], pages_fetched: 1, truncated: false }),
     postJson: vi.fn().mockResolvedValue({ data: "mock" }),
     putJson: vi.fn().mockResolvedValue({ data: "mock" }),
     postForm: vi.fn().mockResolvedValue({ data: "mock" }),
     putForm: vi.fn().mockResolvedValue({ data: "mock" }),
     patchJson: vi.fn().mockResolvedValue({ data: "mock" }),
     deleteReq: vi.fn().mockResolvedValue({ data: "mock" }),
+    getBinary: vi
+      .fn()
+      .mockResolvedValue({ data: Buffer.from("%PDF-1.4"), content_type: "application/pdf" }),
   } as unknown as FreeAgentClient;
 }
 
@@ -103,12 +134,54 @@ describe("registerContactTools", () => {
     const handler = tools.get("freeagent_list_contacts")!;
     await handler({ view: "active" });
 
-    expect(client.get).toHaveBeenCalledWith(
+    expect(client.getPage).toHaveBeenCalledWith(
       "/contacts",
       expect.objectContaining({ view: "active" })
     );
   });
 
+  it("freeagent_list_contacts defaults per_page and returns pagination info", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    (client.getPage as any).mockResolvedValue({
+      data: { contacts: [{ url: "c1" }] },
+      pagination: { page: 2, per_page: 50, next_page: 3, last_page: 4 },
+    });
+    registerContactTools(server, client);
+
+    const handler = tools.get("freeagent_list_contacts")!;
+    const result = await handler({ page: 2 });
+
+    expect(client.getPage).toHaveBeenCalledWith("/contacts", { page: "2", per_page: "50" });
+    const body = JSON.parse(result.content[0].text);
+    expect(body.contacts).toEqual([{ url: "c1" }]);
+    expect(body.pagination.next_page).toBe(3);
+  });
+
+  it("freeagent_list_contacts fetches every page when all_pages is set", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    (client.getAllPages as any).mockResolvedValue({
+      items: [{ url: "c1" }, { url: "c2" }],
+      pages_fetched: 2,
+      truncated: false,
+    });
+    registerContactTools(server, client);
+
+    const handler = tools.get("freeagent_list_contacts")!;
+    const result = await handler({ view: "active", all_pages: true });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/contacts",
+      "contacts",
+      { view: "active" },
+      1000
+    );
+    const body = JSON.parse(result.content[0].text);
+    expect(body.contacts).toHaveLength(2);
+    expect(body.pagination).toEqual({ pages_fetched: 2, truncated: false });
+  });
+
   it("freeagent_create_contact sends wrapped body", async () => {
     const { server, tools } = createMockServer();
     const client = createMockClient();
@@ -141,11 +214,111 @@ describe("registerContactTools", () => {
 });
 
 describe("registerInvoiceTools", () => {
-  it("registers 9 tools", () => {
+  it("registers 12 tools", () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerInvoiceTools(server, client);
+    expect(tools.size).toBe(12);
+  });
+
+  it("freeagent_get_invoice_pdf returns the PDF as an embedded resource", async () => {
     const { server, tools } = createMockServer();
     const client = createMockClient();
     registerInvoiceTools(server, client);
-    expect(tools.size).toBe(9);
+
+    const result = await tools.get("freeagent_get_invoice_pdf")!({ invoice_id: "42" });
+
+    expect(client.getBinary).toHaveBeenCalledWith("/invoices/42/pdf");
+    expect(result.content[0]).toMatchObject({
+      type: "resource",
+      resource: { uri: "freeagent://invoices/42/pdf", mimeType: "application/pdf" },
+    });
+  });
+
+  describe("freeagent_record_invoice_payment", () => {
+    const invoiceUrl = "https://api.freeagent.com/v2/invoices/12";
+    const bankAccount = "https://api.freeagent.com/v2/bank_accounts/3";
+
+    function setup(invoice: Record<string, unknown>) {
+      const { server, tools } = createMockServer();
+      const client = createMockClient();
+      vi.mocked(client.get).mockResolvedValue({ invoice: { url: invoiceUrl, ...invoice } });
+      registerInvoiceTools(server, client);
+      return { client, handler: tools.get("freeagent_record_invoice_payment")! };
+    }
+
+    it("defaults to paying the outstanding balance", async () => {
+      const { client, handler } = setup({ due_value: "1200.0" });
+      await handler({ invoice_id: "12", bank_account: bankAccount, dated_on: "2024-06-01" });
+
+      expect(client.get).toHaveBeenCalledWith("/invoices/12");
+      expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+        bank_transaction_explanation: {
+          paid_invoice: invoiceUrl,
+          dated_on: "2024-06-01",
+          bank_account: bankAccount,
+          gross_value: "1200.0",
+        },
+      });
+    });
+
+    it("records a partial foreign-currency payment against an existing transaction", async () => {
+      const { client, handler } = setup({ due_value: "1000.0", currency: "USD" });
+      await handler({
+        invoice_id: "12",
+        bank_transaction: "https://api.freeagent.com/v2/bank_transactions/7",
+        dated_on: "2024-06-01",
+        amount: "500.00",
+        exchange_rate: "0.79",
+      });
+
+      expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+        bank_transaction_explanation: {
+          paid_invoice: invoiceUrl,
+          dated_on: "2024-06-01",
+          bank_transaction: "https://api.freeagent.com/v2/bank_transactions/7",
+          gross_value: "395.00",
+          foreign_currency_value: "500.00",
+        },
+      });
+    });
+
+    it("writes off the outstanding balance on the invoice", async () => {
+      const { client, handler } = setup({ due_value: "80.0" });
+      await handler({ invoice_id: "12", dated_on: "2024-06-01", write_off: true });
+
+      expect(client.putJson).toHaveBeenCalledWith("/invoices/12", {
+        invoice: { written_off_date: "2024-06-01" },
+      });
+      expect(client.postJson).not.toHaveBeenCalled();
+    });
+
+    it("refuses write-offs with payment details", async () => {
+      const { client, handler } = setup({ due_value: "80.0" });
+      const result = await handler({
+        invoice_id: "12",
+        bank_account: bankAccount,
+        dated_on: "2024-06-01",
+        write_off: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("whole outstanding balance");
+      expect(client.putJson).not.toHaveBeenCalled();
+    });
+
+    it("errors without a bank account or when nothing is outstanding", async () => {
+      let { client, handler } = setup({ due_value: "0.0" });
+      let result = await handler({ invoice_id: "12", dated_on: "2024-06-01" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("bank_account or bank_transaction");
+
+      ({ client, handler } = setup({ due_value: "0.0" }));
+      result = await handler({ invoice_id: "12", bank_account: bankAccount, dated_on: "2024-06-01" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("nothing outstanding");
+      expect(client.postJson).not.toHaveBeenCalled();
+    });
   });
 
   it("freeagent_mark_invoice_as_sent calls putJson with transition path", async () => {
@@ -161,6 +334,519 @@ describe("registerInvoiceTools", () => {
       {}
     );
   });
+
+  it("freeagent_create_invoice sends invoice_items as an array", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerInvoiceTools(server, client);
+
+    const items = [{ item_type: "Days", quantity: "2", price: "600.00", description: "Build" }];
+    const handler = tools.get("freeagent_create_invoice")!;
+    await handler({
+      contact: "https://api.freeagent.com/v2/contacts/1",
+      dated_on: "2024-05-01",
+      payment_terms_in_days: 30,
+      invoice_items: items,
+    });
+
+    expect(client.postJson).toHaveBeenCalledWith("/invoices", {
+      invoice: expect.objectContaining({ invoice_items: items }),
+    });
+  });
+
+  it("freeagent_update_invoice passes item changes through", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerInvoiceTools(server, client);
+
+    const items = [{ url: "https://api.freeagent.com/v2/invoice_items/9", _destroy: true }];
+    const handler = tools.get("freeagent_update_invoice")!;
+    await handler({ invoice_id: "12", invoice_items: items });
+
+    expect(client.putJson).toHaveBeenCalledWith("/invoices/12", {
+      invoice: { invoice_items: items },
+    });
+  });
+});
+
+describe("invoice item schemas", () => {
+  const item = {
+    item_type: "Hours",
+    quantity: "7.5",
+    price: "450.00",
+    description: "Consulting",
+    sales_tax_rate: "20.0",
+  };
+
+  it("accepts a well-formed item", () => {
+    expect(invoiceItemSchema.safeParse(item).success).toBe(true);
+  });
+
+  it("rejects unknown item types and non-decimal amounts", () => {
+    expect(invoiceItemSchema.safeParse({ ...item, item_type: "Hourly" }).success).toBe(false);
+    const result = invoiceItemSchema.safeParse({ ...item, price: "£450" });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues[0].message).toContain("price must be a decimal number");
+  });
+
+  it("allows partial changes and deletes for existing items", () => {
+    const url = "https://api.freeagent.com/v2/invoice_items/9";
+    expect(invoiceItemUpdateSchema.safeParse({ url, price: "500.00" }).success).toBe(true);
+    expect(invoiceItemUpdateSchema.safeParse({ url, _destroy: true }).success).toBe(true);
+  });
+
+  it("requires full fields for new items and a url for deletes", () => {
+    expect(invoiceItemUpdateSchema.safeParse({ price: "500.00" }).success).toBe(false);
+    expect(invoiceItemUpdateSchema.safeParse(item).success).toBe(true);
+    expect(invoiceItemUpdateSchema.safeParse({ _destroy: true }).success).toBe(false);
+  });
+});
+
+describe("unbilled time", () => {
+  const api = "https://api.freeagent.com/v2";
+  const project = {
+    url: `${api}/projects/3`,
+    contact: `${api}/contacts/4`,
+    currency: "GBP",
+    normal_billing_rate: "500.0",
+    billing_period: "day",
+    hours_per_day: "7.5",
+  };
+  const tasks = new Map<string, Task>([
+    [`${api}/tasks/1`, { url: `${api}/tasks/1`, name: "Development", billing_rate: "80.0", billing_period: "hour" }],
+    [`${api}/tasks/2`, { url: `${api}/tasks/2`, name: "Workshops" }],
+  ]);
+  const users = new Map<string, User>([
+    [`${api}/users/1`, { url: `${api}/users/1`, first_name: "Ada", last_name: "Lovelace" }],
+  ]);
+  const timeslips = [
+    { url: `${api}/timeslips/1`, user: `${api}/users/1`, task: `${api}/tasks/1`, hours: "3.5" },
+    { url: `${api}/timeslips/2`, user: `${api}/users/1`, task: `${api}/tasks/1`, hours: "2.0" },
+    { url: `${api}/timeslips/3`, user: `${api}/users/1`, task: `${api}/tasks/2`, hours: "15.0" },
+  ];
+
+  it("prices groups by task using task then project rates", () => {
+    const { groups, warnings } = priceUnbilledTime(timeslips, tasks, users, project, "task");
+    expect(warnings).toEqual([]);
+    expect(groups).toEqual([
+      {
+        description: "Development",
+        item_type: "Hours",
+        hours: 5.5,
+        quantity: "5.5",
+        price: "80.00",
+        amount: "440.00",
+        timeslips: [`${api}/timeslips/1`, `${api}/timeslips/2`],
+      },
+      {
+        description: "Workshops",
+        item_type: "Days",
+        hours: 15,
+        quantity: "2",
+        price: "500.00",
+        amount: "1000.00",
+        timeslips: [`${api}/timeslips/3`],
+      },
+    ]);
+  });
+
+  it("splits a user's time by rate and warns about unpriceable tasks", () => {
+    const { groups, warnings } = priceUnbilledTime(
+      timeslips,
+      tasks,
+      users,
+      { ...project, normal_billing_rate: undefined, billing_period: "month" },
+      "user"
+    );
+    expect(groups.map((g) => [g.description, g.amount])).toEqual([
+      ["Ada Lovelace (Development)", "440.00"],
+      ["Ada Lovelace (Workshops)", "0.00"],
+    ]);
+    expect(warnings).toEqual([
+      "Workshops: month billing periods cannot be priced from hours; billed at 0",
+    ]);
+  });
+
+  function setup() {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockImplementation(async (path: string) =>
+      path.startsWith("/projects") ? { project } : { contact: { default_payment_terms_in_days: 21 } }
+    );
+    const lists: Record<string, unknown[]> = {
+      "/timeslips": timeslips,
+      "/tasks": [...tasks.values()],
+    };
+    vi.mocked(client.getAllPages).mockImplementation(async (path) => ({
+      items: lists[path] ?? [],
+      pages_fetched: 1,
+      truncated: false,
+    }));
+    registerInvoiceTools(server, client);
+    return { client, handler: tools.get("freeagent_invoice_unbilled_time")! };
+  }
+
+  it("previews totals without creating an invoice", async () => {
+    const { client, handler } = setup();
+    const result = await handler({ project_id: "3", preview: true });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/timeslips",
+      "timeslips",
+      { view: "unbilled", project: project.url },
+      1000
+    );
+    expect(client.postJson).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ preview: true, total: "1440.00" });
+  });
+
+  it("refuses to bill part of the time when the timeslip list is truncated", async () => {
+    const { client, handler } = setup();
+    vi.mocked(client.getAllPages).mockResolvedValue({ items: timeslips, pages_fetched: 20, truncated: true });
+
+    const result = await handler({ project_id: "3" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("more than 1000 unbilled timeslips");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("creates a draft invoice with items linked to timeslips", async () => {
+    const { client, handler } = setup();
+    await handler({ project_id: "3", dated_on: "2024-05-31" });
+
+    const { invoice } = vi.mocked(client.postJson).mock.calls[0][1] as any;
+    expect(invoice).toMatchObject({
+      contact: project.contact,
+      project: project.url,
+      currency: "GBP",
+      dated_on: "2024-05-31",
+      payment_terms_in_days: 21,
+    });
+    expect(invoice.invoice_items[0]).toEqual({
+      item_type: "Hours",
+      quantity: "5.5",
+      price: "80.00",
+      description: "Development",
+      timeslips: [`${api}/timeslips/1`, `${api}/timeslips/2`],
+    });
+  });
+});
+
+describe("recurring invoices", () => {
+  const api = "https://api.freeagent.com/v2";
+
+  function setup() {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerRecurringInvoiceTools(server, client);
+    return { client, tools };
+  }
+
+  it("registers 4 tools", () => {
+    expect(setup().tools.size).toBe(4);
+  });
+
+  it("freeagent_project_recurring_invoices totals per currency", async () => {
+    const { client, tools } = setup();
+    vi.mocked(client.getAllPages).mockResolvedValue({
+      items: [
+        { url: `${api}/recurring_invoices/1`, frequency: "Quarterly", next_recurs_on: "2024-01-15", total_value: "1200.0", currency: "GBP" },
+      ],
+      pages_fetched: 1,
+      truncated: false,
+    });
+
+    const result = await tools.get("freeagent_project_recurring_invoices")!({
+      from_date: "2024-01-01",
+      to_date: "2024-12-31",
+    });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/recurring_invoices",
+      "recurring_invoices",
+      { view: "active" },
+      1000
+    );
+    const body = JSON.parse(result.content[0].text);
+    expect(body.invoices).toHaveLength(4);
+    expect(body.totals).toEqual({ GBP: "4800.00" });
+    expect(body.warnings).toEqual([]);
+  });
+
+  it("freeagent_project_recurring_invoices warns when the profile list is cut short", async () => {
+    const { client, tools } = setup();
+    vi.mocked(client.getAllPages).mockResolvedValue({
+      items: [
+        { url: `${api}/recurring_invoices/1`, frequency: "Monthly", next_recurs_on: "2024-01-15", total_value: "0.1", currency: "GBP" },
+        { url: `${api}/recurring_invoices/2`, frequency: "Monthly", next_recurs_on: "2024-01-20", total_value: "0.2", currency: "GBP" },
+      ],
+      pages_fetched: 10,
+      truncated: true,
+    });
+
+    const result = await tools.get("freeagent_project_recurring_invoices")!({
+      from_date: "2024-01-01",
+      to_date: "2024-01-31",
+    });
+
+    const body = JSON.parse(result.content[0].text);
+    expect(body.totals).toEqual({ GBP: "0.30" });
+    expect(body.warnings).toEqual([
+      "Only the first 1000 recurring_invoices from /recurring_invoices were included",
+    ]);
+  });
+
+  it("freeagent_project_recurring_invoices rejects a backwards range", async () => {
+    const { client, tools } = setup();
+    const result = await tools.get("freeagent_project_recurring_invoices")!({
+      from_date: "2024-12-31",
+      to_date: "2024-01-01",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("from_date must not be after to_date");
+    expect(client.getAllPages).not.toHaveBeenCalled();
+  });
+
+  it("freeagent_set_invoice_recurrence updates draft invoices only", async () => {
+    const { client, tools } = setup();
+    const handler = tools.get("freeagent_set_invoice_recurrence")!;
+
+    vi.mocked(client.get).mockResolvedValueOnce({ invoice: { status: "Open" } });
+    const rejected = await handler({ invoice_id: "5", frequency: "monthly" });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0].text).toContain("only draft invoices");
+
+    vi.mocked(client.get).mockResolvedValueOnce({ invoice: { status: "Draft" } });
+    await handler({
+      invoice_id: "5",
+      frequency: "quarterly",
+      recurring_end_date: "2025-12-31",
+      send_new_invoice_emails: true,
+    });
+    expect(client.putJson).toHaveBeenCalledWith("/invoices/5", {
+      invoice: {
+        recurring_invoice: {
+          frequency: "Quarterly",
+          recurring_end_date: "2025-12-31",
+          send_new_invoice_emails: true,
+        },
+      },
+    });
+  });
+});
+
+describe("freeagent_convert_estimate_to_invoice", () => {
+  const api = "https://api.freeagent.com/v2";
+  const estimateItems = [
+    { url: `${api}/estimate_items/1`, item_type: "Days", quantity: "5", price: "600.0", description: "Build", sales_tax_rate: "20.0" },
+    { url: `${api}/estimate_items/2`, item_type: "-no unit-", quantity: "1", price: "250.0", description: "Hosting" },
+    { url: `${api}/estimate_items/3`, item_type: "Comment", description: "Thanks" },
+  ];
+
+  function setup(
+    contact: Record<string, unknown> = { default_payment_terms_in_days: 14 },
+    status = "Approved"
+  ) {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockImplementation(async (path: string) =>
+      path.startsWith("/estimates")
+        ? {
+            estimate: {
+              url: `${api}/estimates/8`,
+              reference: "EST-008",
+              status,
+              contact: `${api}/contacts/4`,
+              project: `${api}/projects/2`,
+              currency: "GBP",
+              dated_on: "2024-04-01",
+              estimate_items: estimateItems,
+            },
+          }
+        : { contact }
+    );
+    registerEstimateTools(server, client);
+    return { client, handler: tools.get("freeagent_convert_estimate_to_invoice")! };
+  }
+
+  it("copies the estimate into a draft invoice with the contact's terms", async () => {
+    const { client, handler } = setup();
+    await handler({ estimate_id: "8" });
+
+    expect(client.get).toHaveBeenCalledWith("/contacts/4");
+    const { invoice } = vi.mocked(client.postJson).mock.calls[0][1] as any;
+    expect(client.postJson).toHaveBeenCalledWith("/invoices", expect.anything());
+    expect(invoice).toMatchObject({
+      contact: `${api}/contacts/4`,
+      project: `${api}/projects/2`,
+      currency: "GBP",
+      dated_on: "2024-04-01",
+      payment_terms_in_days: 14,
+      comments: "Converted from estimate EST-008",
+    });
+    expect(invoice.invoice_items).toEqual([
+      { item_type: "Days", quantity: "5", price: "600.0", description: "Build", sales_tax_rate: "20.0" },
+      { item_type: "-no unit-", quantity: "1", price: "250.0", description: "Hosting" },
+      { item_type: "Comment", quantity: "1", price: "0", description: "Thanks" },
+    ]);
+  });
+
+  it("invoices a deposit on selected items", async () => {
+    const { client, handler } = setup({});
+    await handler({
+      estimate_id: "8",
+      items: [`${api}/estimate_items/1`],
+      deposit_percentage: 25,
+    });
+
+    const { invoice } = vi.mocked(client.postJson).mock.calls[0][1] as any;
+    expect(invoice.payment_terms_in_days).toBe(30);
+    expect(invoice.comments).toBe("25% deposit for estimate EST-008");
+    expect(invoice.invoice_items).toEqual([
+      { item_type: "Days", quantity: "5", price: "150.00", description: "25% deposit: Build", sales_tax_rate: "20.0" },
+    ]);
+  });
+
+  it("refuses estimates that have not been approved", async () => {
+    const { client, handler } = setup(undefined, "Sent");
+    const result = await handler({ estimate_id: "8" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Estimate EST-008 is Sent");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("rejects items that are not on the estimate", () => {
+    expect(() =>
+      estimateToInvoiceItems(estimateItems, { itemUrls: [`${api}/estimate_items/99`] })
+    ).toThrow("Estimate has no item(s)");
+  });
+});
+
+describe("registerCreditNoteTools", () => {
+  const api = "https://api.freeagent.com/v2";
+  const creditNoteUrl = `${api}/credit_notes/6`;
+
+  const openInvoice = {
+    url: `${api}/invoices/2`,
+    reference: "INV-2",
+    contact: `${api}/contacts/4`,
+    status: "Open",
+    due_value: "120.0",
+  };
+
+  function setupWith(invoice: Record<string, unknown>) {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockImplementation(async (path: string) =>
+      path.startsWith("/credit_notes")
+        ? { credit_note: { url: creditNoteUrl, contact: `${api}/contacts/4`, due_value: "-300.0" } }
+        : { invoice }
+    );
+    registerCreditNoteTools(server, client);
+    return { client, tools };
+  }
+
+  function setup() {
+    return setupWith(openInvoice);
+  }
+
+  it("registers 11 tools", () => {
+    expect(setup().tools.size).toBe(11);
+  });
+
+  it("freeagent_mark_credit_note_as_cancelled calls the transition", async () => {
+    const { client, tools } = setup();
+    await tools.get("freeagent_mark_credit_note_as_cancelled")!({ credit_note_id: "6" });
+    expect(client.putJson).toHaveBeenCalledWith("/credit_notes/6/transitions/mark_as_cancelled", {});
+  });
+
+  it("allocates up to the invoice's amount due", async () => {
+    const { client, tools } = setup();
+    await tools.get("freeagent_allocate_credit_note")!({
+      credit_note_id: "6",
+      invoice: `${api}/invoices/2`,
+      dated_on: "2024-05-01",
+    });
+
+    expect(client.get).toHaveBeenCalledWith("/invoices/2");
+    expect(client.postJson).toHaveBeenCalledWith("/credit_note_reconciliations", {
+      credit_note_reconciliation: {
+        credit_note: creditNoteUrl,
+        invoice: `${api}/invoices/2`,
+        dated_on: "2024-05-01",
+        gross_value: "120.00",
+      },
+    });
+  });
+
+  it("records a refund as money out of the bank account", async () => {
+    const { client, tools } = setup();
+    await tools.get("freeagent_allocate_credit_note")!({
+      credit_note_id: "6",
+      bank_account: `${api}/bank_accounts/1`,
+      dated_on: "2024-05-01",
+    });
+
+    expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        bank_account: `${api}/bank_accounts/1`,
+        dated_on: "2024-05-01",
+        paid_invoice: creditNoteUrl,
+        gross_value: "-300.00",
+      },
+    });
+  });
+
+  it("rejects ambiguous targets and amounts over the remaining credit", async () => {
+    const { client, tools } = setup();
+    const handler = tools.get("freeagent_allocate_credit_note")!;
+
+    const both = await handler({
+      credit_note_id: "6",
+      invoice: `${api}/invoices/2`,
+      bank_account: `${api}/bank_accounts/1`,
+      dated_on: "2024-05-01",
+    });
+    expect(both.content[0].text).toContain("exactly one of invoice");
+
+    const tooMuch = await handler({
+      credit_note_id: "6",
+      bank_account: `${api}/bank_accounts/1`,
+      dated_on: "2024-05-01",
+      amount: "500.00",
+    });
+    expect(tooMuch.content[0].text).toContain("Only 300.00 of credit note 6 remains");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("only allocates to open invoices for the same contact, up to the amount due", async () => {
+    const allocate = (tools: ReturnType<typeof setup>["tools"], amount?: string) =>
+      tools.get("freeagent_allocate_credit_note")!({
+        credit_note_id: "6",
+        invoice: `${api}/invoices/2`,
+        dated_on: "2024-05-01",
+        amount,
+      });
+
+    let { client, tools } = setupWith({ ...openInvoice, contact: `${api}/contacts/9` });
+    expect((await allocate(tools)).content[0].text).toContain("INV-2 is for a different contact");
+
+    ({ client, tools } = setupWith({ ...openInvoice, status: "Draft" }));
+    expect((await allocate(tools)).content[0].text).toContain("INV-2 is Draft");
+
+    ({ client, tools } = setupWith({ ...openInvoice, status: "Paid", due_value: "0.0" }));
+    expect((await allocate(tools)).content[0].text).toContain("INV-2 is Paid");
+
+    ({ client, tools } = setupWith({ ...openInvoice, due_value: "0.0" }));
+    expect((await allocate(tools)).content[0].text).toContain("Invoice INV-2 has nothing due");
+
+    ({ client, tools } = setup());
+    expect((await allocate(tools, "200.00")).content[0].text).toContain("Only 120.00 is due on invoice INV-2");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
 });
 
 describe("registerExpenseTools", () => {
@@ -196,12 +882,142 @@ describe("registerExpenseTools", () => {
   });
 });
 
+describe("attachments", () => {
+  const pdf = Buffer.from("%PDF-1.4\n%receipt\n");
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "attachment-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("builds an attachment from a file path", async () => {
+    const file = join(dir, "receipt.pdf");
+    writeFileSync(file, pdf);
+
+    await expect(buildAttachment({ file_path: file, description: "Taxi" })).resolves.toEqual({
+      data: pdf.toString("base64"),
+      file_name: "receipt.pdf",
+      content_type: "application/x-pdf",
+      description: "Taxi",
+    });
+  });
+
+  it("builds an attachment from base64 data", async () => {
+    const attachment = await buildAttachment({
+      data: png.toString("base64"),
+      content_type: "image/png",
+      file_name: "receipt.png",
+    });
+    expect(attachment).toMatchObject({ file_name: "receipt.png", content_type: "image/png" });
+  });
+
+  it("rejects unsupported, mislabelled and oversized files", async () => {
+    await expect(
+      buildAttachment({ data: "aGVsbG8=", content_type: "text/plain", file_name: "a.txt" })
+    ).rejects.toThrow("Unsupported attachment type text/plain");
+    await expect(
+      buildAttachment({ data: png.toString("base64"), content_type: "application/pdf", file_name: "a.pdf" })
+    ).rejects.toThrow("do not look like application/x-pdf");
+
+    const big = join(dir, "scan.pdf");
+    writeFileSync(big, pdf);
+    truncateSync(big, MAX_ATTACHMENT_BYTES + 1);
+    await expect(buildAttachment({ file_path: big })).rejects.toThrow("at most 5MB");
+  });
+
+  it("requires exactly one source", async () => {
+    await expect(buildAttachment({ file_name: "a.pdf" })).rejects.toThrow(
+      "exactly one of file_path or data"
+    );
+  });
+
+  it("freeagent_create_expense sends the attachment object", async () => {
+    const file = join(dir, "lunch.png");
+    writeFileSync(file, png);
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerExpenseTools(server, client);
+
+    await tools.get("freeagent_create_expense")!({
+      user: "https://api.freeagent.com/v2/users/1",
+      category: "https://api.freeagent.com/v2/categories/285",
+      dated_on: "2024-01-15",
+      gross_value: "-12.50",
+      attachment: { file_path: file },
+    });
+
+    const body = vi.mocked(client.postJson).mock.calls[0][1] as any;
+    expect(body.expense.attachment).toEqual({
+      data: png.toString("base64"),
+      file_name: "lunch.png",
+      content_type: "image/png",
+    });
+  });
+
+  it("freeagent_create_bill does not send when the attachment is invalid", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerBillTools(server, client);
+
+    const result = await tools.get("freeagent_create_bill")!({
+      contact: "https://api.freeagent.com/v2/contacts/1",
+      reference: "B-1",
+      dated_on: "2024-01-15",
+      due_on: "2024-02-15",
+      bill_items: "[]",
+      attachment: { file_path: join(dir, "missing.pdf") },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("registers list, get and delete tools", () => {
+    const { server, tools } = createMockServer();
+    registerAttachmentTools(server, createMockClient());
+    expect([...tools.keys()]).toEqual([
+      "freeagent_list_attachments",
+      "freeagent_get_attachment",
+      "freeagent_delete_attachment",
+    ]);
+  });
+
+  it("freeagent_list_attachments collects attachments from a transaction's explanations", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockResolvedValue({
+      bank_transaction: {
+        bank_transaction_explanations: [
+          { attachment: { url: "https://api.freeagent.com/v2/attachments/1" } },
+          { description: "no receipt" },
+        ],
+      },
+    });
+    registerAttachmentTools(server, client);
+
+    const result = await tools.get("freeagent_list_attachments")!({
+      record_type: "bank_transaction",
+      record_id: "9",
+    });
+
+    expect(client.get).toHaveBeenCalledWith("/bank_transactions/9");
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      attachments: [{ url: "https://api.freeagent.com/v2/attachments/1" }],
+    });
+  });
+});
+
 describe("registerBankingTools", () => {
-  it("registers 7 tools", () => {
+  it("registers 14 tools", () => {
     const { server, tools } = createMockServer();
     const client = createMockClient();
     registerBankingTools(server, client);
-    expect(tools.size).toBe(7);
+    expect(tools.size).toBe(15);
   });
 
   it("freeagent_list_bank_transactions requires bank_account param", async () => {
@@ -214,7 +1030,7 @@ describe("registerBankingTools", () => {
       bank_account: "https://api.freeagent.com/v2/bank_accounts/1",
     });
 
-    expect(client.get).toHaveBeenCalledWith(
+    expect(client.getPage).toHaveBeenCalledWith(
       "/bank_transactions",
       expect.objectContaining({
         bank_account: "https://api.freeagent.com/v2/bank_accounts/1",
@@ -223,18 +1039,529 @@ describe("registerBankingTools", () => {
   });
 });
 
-describe("registerAccountingTools", () => {
-  it("registers 5 tools", () => {
-    const { server, tools } = createMockServer();
-    const client = createMockClient();
-    registerAccountingTools(server, client);
-    expect(tools.size).toBe(5);
+describe("freeagent_upload_bank_statement", () => {
+  const bankAccount = "https://api.freeagent.com/v2/bank_accounts/1";
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "statement-"));
   });
 
-  it("freeagent_get_profit_and_loss passes date params", async () => {
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function setup(existing: unknown[]) {
     const { server, tools } = createMockServer();
     const client = createMockClient();
-    registerAccountingTools(server, client);
+    vi.mocked(client.getAllPages).mockResolvedValue({
+      items: existing,
+      pages_fetched: 1,
+      truncated: false,
+    });
+    registerBankingTools(server, client);
+    return { client, handler: tools.get("freeagent_upload_bank_statement")! };
+  }
+
+  it("uploads new transactions and reports duplicates", async () => {
+    const file = join(dir, "march.csv");
+    writeFileSync(file, "Date,Description,Amount\n01/03/2024,Coffee,-3.20\n05/03/2024,Client,500.00\n");
+    const { client, handler } = setup([{ dated_on: "2024-03-01", amount: "-3.2" }]);
+
+    const result = await handler({ bank_account: bankAccount, file_path: file });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/bank_transactions",
+      "bank_transactions",
+      { bank_account: bankAccount, from_date: "2024-03-01", to_date: "2024-03-05" },
+      1000
+    );
+    expect(client.postJson).toHaveBeenCalledWith(
+      `/bank_transactions/statement?bank_account=${encodeURIComponent(bankAccount)}`,
+      { statement: [{ dated_on: "2024-03-05", description: "Client", amount: "500.00" }] }
+    );
+    const body = JSON.parse(result.content[0].text);
+    expect(body).toMatchObject({ parsed: 2, uploaded: 1 });
+    expect(body.duplicates).toEqual([
+      { dated_on: "2024-03-01", description: "Coffee", amount: "-3.20" },
+    ]);
+  });
+
+  it("skips the upload when everything is already present", async () => {
+    const file = join(dir, "march.qif");
+    writeFileSync(file, "!Type:Bank\nD01/03/2024\nT-3.20\nPCoffee\n^\n");
+    const { client, handler } = setup([{ dated_on: "2024-03-01", amount: "-3.20" }]);
+
+    const result = await handler({ bank_account: bankAccount, file_path: file });
+
+    expect(client.postJson).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text).uploaded).toBe(0);
+  });
+
+  it("refuses to skip duplicates when the existing transactions are truncated", async () => {
+    const file = join(dir, "march.csv");
+    writeFileSync(file, "Date,Description,Amount\n01/03/2024,Coffee,-3.20\n");
+    const { client, handler } = setup([]);
+    vi.mocked(client.getAllPages).mockResolvedValue({ items: [], pages_fetched: 10, truncated: true });
+
+    const result = await handler({ bank_account: bankAccount, file_path: file });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("too many to check for duplicates");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("reads statements only from the upload directory", async () => {
+    const file = join(dir, "march.csv");
+    writeFileSync(file, "Date,Description,Amount\n01/03/2024,Coffee,-3.20\n");
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    const uploadDir = mkdtempSync(join(tmpdir(), "uploads-"));
+    registerBankingTools(server, client, { uploadDir });
+
+    try {
+      const result = await tools.get("freeagent_upload_bank_statement")!({
+        bank_account: bankAccount,
+        file_path: file,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("outside the upload directory");
+      expect(client.postJson).not.toHaveBeenCalled();
+    } finally {
+      rmSync(uploadDir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns parse errors without uploading", async () => {
+    const file = join(dir, "march.csv");
+    writeFileSync(file, "Date,Description,Amount\n2024-03-01,Coffee,-3.20\n");
+    const { client, handler } = setup([]);
+
+    const result = await handler({ bank_account: bankAccount, file_path: file });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Line 2: Could not parse date");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+});
+
+describe("freeagent_suggest_explanations", () => {
+  const bankAccount = "https://api.freeagent.com/v2/bank_accounts/1";
+
+  it("fetches unexplained transactions and match sources", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    const items: Record<string, unknown[]> = {
+      "/bank_transactions": [
+        { url: "https://api.freeagent.com/v2/bank_transactions/4", dated_on: "2024-03-04", amount: "250.0", description: "INV-7" },
+      ],
+      "/invoices": [{ url: "https://api.freeagent.com/v2/invoices/7", reference: "INV-7", due_value: "250.0" }],
+    };
+    vi.mocked(client.getAllPages).mockImplementation(async (path) => ({
+      items: items[path] ?? [],
+      pages_fetched: 1,
+      truncated: false,
+    }));
+    registerBankingTools(server, client);
+
+    const result = await tools.get("freeagent_suggest_explanations")!({ bank_account: bankAccount });
+
+    const calls = vi.mocked(client.getAllPages).mock.calls;
+    expect(calls[0].slice(0, 3)).toEqual([
+      "/bank_transactions",
+      "bank_transactions",
+      { bank_account: bankAccount, view: "unexplained" },
+    ]);
+    expect(calls.map((c) => c[0])).toEqual(
+      expect.arrayContaining(["/invoices", "/bills", "/expenses", "/bank_transaction_explanations"])
+    );
+    expect(calls.find((c) => c[0] === "/expenses")![2]).toEqual({
+      from_date: "2024-02-26",
+      to_date: "2024-03-11",
+    });
+    const body = JSON.parse(result.content[0].text);
+    expect(body.transactions[0].suggestions[0]).toMatchObject({
+      type: "invoice",
+      match: "https://api.freeagent.com/v2/invoices/7",
+      confidence: 0.95,
+    });
+  });
+
+  it("skips the other lookups when nothing is unexplained", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerBankingTools(server, client);
+
+    const result = await tools.get("freeagent_suggest_explanations")!({ bank_account: bankAccount });
+
+    expect(client.getAllPages).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(result.content[0].text)).toEqual({ transactions: [], warnings: [] });
+  });
+
+  it("warns when a list was truncated", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.getAllPages).mockImplementation(async (path) => ({
+      items:
+        path === "/bank_transactions"
+          ? [{ url: "https://api.freeagent.com/v2/bank_transactions/4", dated_on: "2024-03-04", amount: "250.0" }]
+          : [],
+      pages_fetched: 1,
+      truncated: path === "/invoices",
+    }));
+    registerBankingTools(server, client);
+
+    const result = await tools.get("freeagent_suggest_explanations")!({ bank_account: bankAccount });
+
+    expect(JSON.parse(result.content[0].text).warnings).toEqual([
+      "Only the first 1000 invoices from /invoices were included",
+    ]);
+  });
+});
+
+describe("bank transaction explanation tools", () => {
+  const txnUrl = "https://api.freeagent.com/v2/bank_transactions/7";
+  const category = (code: number) => `https://api.freeagent.com/v2/categories/${code}`;
+
+  function setup() {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerBankingTools(server, client);
+    return { client, tools };
+  }
+
+  it("explains a transaction as a bill payment", async () => {
+    const { client, tools } = setup();
+    await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      gross_value: "-120.00",
+      paid_bill: "https://api.freeagent.com/v2/bills/5",
+      marked_for_review: true,
+    });
+
+    expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        dated_on: "2024-06-01",
+        bank_transaction: txnUrl,
+        marked_for_review: true,
+        gross_value: "-120.00",
+        paid_bill: "https://api.freeagent.com/v2/bills/5",
+      },
+    });
+  });
+
+  it("rejects ambiguous or missing explanation targets", async () => {
+    const { client, tools } = setup();
+    const handler = tools.get("freeagent_create_bank_transaction_explanation")!;
+
+    const both = await handler({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      gross_value: "-10.00",
+      category: category(285),
+      paid_bill: "https://api.freeagent.com/v2/bills/5",
+    });
+    expect(both.isError).toBe(true);
+
+    const none = await handler({ bank_transaction: txnUrl, dated_on: "2024-06-01", gross_value: "-10.00" });
+    expect(none.isError).toBe(true);
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("creates one explanation per split when they balance", async () => {
+    const { client, tools } = setup();
+    vi.mocked(client.get).mockResolvedValue({
+      bank_transaction: { unexplained_amount: "-150.0" },
+    });
+    vi.mocked(client.postJson).mockImplementation(async (_path, body: any) => body);
+
+    const result = await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      description: "Office supplies",
+      splits: [
+        { category: category(285), gross_value: "-100.00" },
+        { category: category(365), gross_value: "-50.00", description: "Postage" },
+      ],
+    });
+
+    expect(client.get).toHaveBeenCalledWith("/bank_transactions/7");
+    expect(client.postJson).toHaveBeenCalledTimes(2);
+    const body = JSON.parse(result.content[0].text);
+    expect(body.bank_transaction_explanations).toEqual([
+      expect.objectContaining({ category: category(285), description: "Office supplies" }),
+      expect.objectContaining({ category: category(365), description: "Postage" }),
+    ]);
+  });
+
+  it("refuses splits that do not add up to the unexplained amount", async () => {
+    const { client, tools } = setup();
+    vi.mocked(client.get).mockResolvedValue({
+      bank_transaction: { unexplained_amount: "-150.0" },
+    });
+
+    const result = await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      splits: [{ category: category(285), gross_value: "-100.00" }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("-100.00");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("requires a bank transaction for splits", async () => {
+    const { client, tools } = setup();
+    const result = await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_account: "https://api.freeagent.com/v2/bank_accounts/3",
+      dated_on: "2024-06-01",
+      splits: [{ category: category(285), gross_value: "-100.00" }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("splits require bank_transaction");
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
+  it("deletes earlier splits when a later one fails", async () => {
+    const { client, tools } = setup();
+    vi.mocked(client.get).mockResolvedValue({
+      bank_transaction: { unexplained_amount: "-150.0" },
+    });
+    vi.mocked(client.postJson)
+      .mockResolvedValueOnce({
+        bank_transaction_explanation: { url: "https://api.freeagent.com/v2/bank_transaction_explanations/41" },
+      })
+      .mockRejectedValueOnce(new Error("Category is invalid"));
+
+    const result = await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      splits: [
+        { category: category(285), gross_value: "-100.00" },
+        { category: category(999), gross_value: "-50.00" },
+      ],
+    });
+
+    expect(client.deleteReq).toHaveBeenCalledWith("/bank_transaction_explanations/41");
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Split 2 failed: Category is invalid");
+    expect(result.content[0].text).toContain("transaction is unchanged");
+  });
+
+  it("names splits it could not roll back", async () => {
+    const { client, tools } = setup();
+    const firstUrl = "https://api.freeagent.com/v2/bank_transaction_explanations/41";
+    vi.mocked(client.get).mockResolvedValue({
+      bank_transaction: { unexplained_amount: "-150.0" },
+    });
+    vi.mocked(client.postJson)
+      .mockResolvedValueOnce({ bank_transaction_explanation: { url: firstUrl } })
+      .mockRejectedValueOnce(new Error("Category is invalid"));
+    vi.mocked(client.deleteReq).mockRejectedValue(new Error("Server error"));
+
+    const result = await tools.get("freeagent_create_bank_transaction_explanation")!({
+      bank_transaction: txnUrl,
+      dated_on: "2024-06-01",
+      splits: [
+        { category: category(285), gross_value: "-100.00" },
+        { category: category(999), gross_value: "-50.00" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(`still in FreeAgent: ${firstUrl}`);
+  });
+
+  it("updates marked_for_review", async () => {
+    const { client, tools } = setup();
+    await tools.get("freeagent_update_bank_transaction_explanation")!({
+      explanation_id: "99",
+      marked_for_review: false,
+    });
+
+    expect(client.putJson).toHaveBeenCalledWith("/bank_transaction_explanations/99", {
+      bank_transaction_explanation: { marked_for_review: false },
+    });
+  });
+});
+
+describe("freeagent_create_bank_transfer", () => {
+  const api = "https://api.freeagent.com/v2";
+  const current = `${api}/bank_accounts/1`;
+  const card = `${api}/bank_accounts/2`;
+
+  function setup(
+    currencies: Record<string, string>,
+    unexplained: Record<string, { url: string; dated_on: string; amount: string }[]>
+  ) {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockImplementation(async (path: string) => ({
+      bank_account: { name: path, currency: currencies[path] },
+    }));
+    vi.mocked(client.getAllPages).mockImplementation(
+      async (_path: string, _key: string, params: Record<string, string>) => ({
+        items: unexplained[params.bank_account] ?? [],
+        pages_fetched: 1,
+        truncated: false,
+      })
+    );
+    registerBankingTools(server, client);
+    return { client, handler: tools.get("freeagent_create_bank_transfer")! };
+  }
+
+  it("explains both imported sides, picking the outgoing transaction nearest the date", async () => {
+    const { client, handler } = setup(
+      { "/bank_accounts/1": "GBP", "/bank_accounts/2": "GBP" },
+      {
+        [current]: [
+          { url: "txn/1", dated_on: "2024-06-01", amount: "-250.0" },
+          { url: "txn/2", dated_on: "2024-06-04", amount: "-250.0" },
+          { url: "txn/3", dated_on: "2024-06-03", amount: "-99.0" },
+        ],
+        [card]: [{ url: "txn/9", dated_on: "2024-06-05", amount: "250.0" }],
+      }
+    );
+
+    const result = await handler({
+      from_bank_account: current,
+      to_bank_account: card,
+      dated_on: "2024-06-03",
+      amount: "250.00",
+      description: "Card repayment",
+    });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/bank_transactions",
+      "bank_transactions",
+      { bank_account: card, view: "unexplained", from_date: "2024-05-31", to_date: "2024-06-06" },
+      1000
+    );
+    expect(client.postJson).toHaveBeenCalledTimes(2);
+    expect(client.postJson).toHaveBeenNthCalledWith(1, "/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        bank_transaction: "txn/2",
+        dated_on: "2024-06-04",
+        gross_value: "-250.00",
+        transfer_bank_account: card,
+        description: "Card repayment",
+      },
+    });
+    expect(client.postJson).toHaveBeenNthCalledWith(2, "/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        bank_transaction: "txn/9",
+        dated_on: "2024-06-05",
+        gross_value: "250.00",
+        transfer_bank_account: current,
+        description: "Card repayment",
+      },
+    });
+    const body = JSON.parse(result.content[0].text);
+    expect(body.matched).toEqual({ from_transaction: "txn/2", to_transaction: "txn/9" });
+    expect(body.warnings).toEqual([]);
+  });
+
+  it("deletes the outgoing explanation when the incoming side cannot be explained", async () => {
+    const { client, handler } = setup(
+      { "/bank_accounts/1": "GBP", "/bank_accounts/2": "GBP" },
+      {
+        [current]: [{ url: "txn/2", dated_on: "2024-06-03", amount: "-250.0" }],
+        [card]: [{ url: "txn/9", dated_on: "2024-06-03", amount: "250.0" }],
+      }
+    );
+    vi.mocked(client.postJson)
+      .mockResolvedValueOnce({ bank_transaction_explanation: { url: `${api}/bank_transaction_explanations/41` } })
+      .mockRejectedValueOnce(new Error("Bank transaction is locked"));
+
+    const result = await handler({
+      from_bank_account: current,
+      to_bank_account: card,
+      dated_on: "2024-06-03",
+      amount: "250.00",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Explaining txn/9 failed: Bank transaction is locked");
+    expect(client.deleteReq).toHaveBeenCalledWith("/bank_transaction_explanations/41");
+  });
+
+  it("explains the incoming side in its own currency when only it has been imported", async () => {
+    const { client, handler } = setup(
+      { "/bank_accounts/1": "GBP", "/bank_accounts/2": "USD" },
+      { [card]: [{ url: "txn/9", dated_on: "2024-06-04", amount: "317.50" }] }
+    );
+
+    const result = await handler({
+      from_bank_account: current,
+      to_bank_account: card,
+      dated_on: "2024-06-03",
+      amount: "250.00",
+      received_amount: "317.50",
+    });
+
+    expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        bank_transaction: "txn/9",
+        dated_on: "2024-06-04",
+        gross_value: "317.50",
+        transfer_bank_account: current,
+        transfer_value: "-250.00",
+      },
+    });
+    expect(JSON.parse(result.content[0].text).matched).toEqual({
+      from_transaction: null,
+      to_transaction: "txn/9",
+    });
+  });
+
+  it("adds a new entry when nothing matches and requires received_amount across currencies", async () => {
+    const { client, handler } = setup({ "/bank_accounts/1": "GBP", "/bank_accounts/2": "EUR" }, {});
+
+    const missing = await handler({
+      from_bank_account: current,
+      to_bank_account: card,
+      dated_on: "2024-06-03",
+      amount: "100.00",
+    });
+    expect(missing.content[0].text).toContain("give received_amount in EUR");
+
+    await handler({
+      from_bank_account: current,
+      to_bank_account: card,
+      dated_on: "2024-06-03",
+      amount: "100.00",
+      received_amount: "117.00",
+      match_existing: false,
+    });
+    expect(client.getAllPages).not.toHaveBeenCalled();
+    expect(client.postJson).toHaveBeenCalledWith("/bank_transaction_explanations", {
+      bank_transaction_explanation: {
+        bank_account: current,
+        dated_on: "2024-06-03",
+        gross_value: "-100.00",
+        transfer_bank_account: card,
+        transfer_value: "117.00",
+      },
+    });
+  });
+});
+
+describe("registerAccountingTools", () => {
+  it("registers 12 tools", () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerAccountingTools(server, client);
+    expect(tools.size).toBe(12);
+  });
+
+  it("freeagent_get_profit_and_loss passes date params", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerAccountingTools(server, client);
 
     const handler = tools.get("freeagent_get_profit_and_loss")!;
     await handler({ from_date: "2024-01-01", to_date: "2024-12-31" });
@@ -248,6 +1575,160 @@ describe("registerAccountingTools", () => {
     );
   });
 
+  it("freeagent_aged_debtors ages open invoices as at a date in the native currency", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.getAllPages).mockResolvedValue({
+      items: [
+        { url: "inv/1", contact: "c/1", due_on: "2024-05-01", due_value: "100.0", currency: "USD", exchange_rate: "0.8" },
+      ],
+      pages_fetched: 1,
+      truncated: false,
+    });
+    vi.mocked(client.get).mockResolvedValue({ company: { currency: "GBP" } });
+    registerAccountingTools(server, client);
+
+    const result = await tools.get("freeagent_aged_debtors")!({
+      as_at_date: "2024-06-15",
+      convert_to_native: true,
+    });
+
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/invoices",
+      "invoices",
+      { view: "open_or_overdue" },
+      1000
+    );
+    const report = JSON.parse(result.content[0].text);
+    expect(report.totals.USD["31_60"]).toBe("100.00");
+    expect(report.native).toMatchObject({ currency: "GBP", total: "80.00" });
+    expect(report.warnings).toEqual([
+      "Amounts are balances still outstanding today, aged as at 2024-06-15; invoices paid since then are not included",
+    ]);
+  });
+
+  it("freeagent_aged_creditors ages open bills", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerAccountingTools(server, client);
+
+    await tools.get("freeagent_aged_creditors")!({ as_at_date: "2024-06-15" });
+
+    expect(client.getAllPages).toHaveBeenCalledWith("/bills", "bills", { view: "open_or_overdue" }, 1000);
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it("freeagent_cash_flow_forecast starts from native-currency bank balances", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-06-01T09:00:00Z"));
+    try {
+      const { server, tools } = createMockServer();
+      const client = createMockClient();
+      vi.mocked(client.get).mockImplementation(async (path: string) =>
+        path === "/company"
+          ? { company: { currency: "GBP" } }
+          : { timeline_items: [{ description: "VAT", dated_on: "2024-06-07", amount_due: "400.0" }] }
+      );
+      vi.mocked(client.getAllPages).mockImplementation(async (path: string) => ({
+        items:
+          path === "/bank_accounts"
+            ? [
+                { url: "a/1", currency: "GBP", current_balance: "999.9" },
+                { url: "a/2", currency: "USD", current_balance: "5000.0" },
+                { url: "a/3", currency: "GBP", current_balance: "0.1" },
+              ]
+            : [],
+        pages_fetched: 1,
+        truncated: false,
+      }));
+      registerAccountingTools(server, client);
+
+      const result = await tools.get("freeagent_cash_flow_forecast")!({
+        weeks: 2,
+        threshold: "750",
+      });
+
+      expect(client.getAllPages).toHaveBeenCalledWith("/bills", "bills", { view: "recurring" }, 1000);
+      const forecast = JSON.parse(result.content[0].text);
+      expect(forecast.opening_balance).toBe("1000.00");
+      expect(forecast.periods.map((p: any) => p.closing_balance)).toEqual(["600.00", "600.00"]);
+      expect(forecast.alerts).toEqual(["2024-06-01", "2024-06-08"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("journalEntries signs credits negative and rejects unbalanced journals", () => {
+    expect(
+      journalEntries([
+        { category: "cat/602", debit: "100", description: "Depreciation", project: "proj/1" },
+        { category: "cat/603", credit: "100.00", description: "Accumulated depreciation" },
+      ])
+    ).toEqual([
+      { category: "cat/602", debit_value: "100.00", description: "Depreciation", project: "proj/1" },
+      { category: "cat/603", debit_value: "-100.00", description: "Accumulated depreciation" },
+    ]);
+
+    expect(() =>
+      journalEntries([
+        { category: "cat/1", debit: "100.00", description: "a" },
+        { category: "cat/2", credit: "99.99", description: "b" },
+      ])
+    ).toThrow("Journal does not balance: debits total 100.00 but credits total 99.99");
+    expect(() =>
+      journalEntries([
+        { category: "cat/1", debit: "10", credit: "10", description: "a" },
+        { category: "cat/2", credit: "10", description: "b" },
+      ])
+    ).toThrow("Entry 1 must have exactly one of debit or credit");
+  });
+
+  it("freeagent_create_journal_set posts balanced entries", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerAccountingTools(server, client);
+
+    await tools.get("freeagent_create_journal_set")!({
+      dated_on: "2024-06-30",
+      description: "June accruals",
+      tag: "accruals",
+      entries: [
+        { category: "cat/250", debit: "400.00", description: "Accountancy fees" },
+        { category: "cat/802", credit: "400.00", description: "Accruals", user: "users/1" },
+      ],
+    });
+
+    expect(client.postJson).toHaveBeenCalledWith("/journal_sets", {
+      journal_set: {
+        dated_on: "2024-06-30",
+        description: "June accruals",
+        tag: "accruals",
+        journal_entries: [
+          { category: "cat/250", debit_value: "400.00", description: "Accountancy fees" },
+          { category: "cat/802", debit_value: "-400.00", description: "Accruals", user: "users/1" },
+        ],
+      },
+    });
+  });
+
+  it("freeagent_create_journal_set sends nothing when the journal does not balance", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerAccountingTools(server, client);
+
+    const result = await tools.get("freeagent_create_journal_set")!({
+      dated_on: "2024-06-30",
+      description: "Bad",
+      entries: [
+        { category: "cat/1", debit: "10.00", description: "a" },
+        { category: "cat/2", debit: "10.00", description: "b" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(client.postJson).not.toHaveBeenCalled();
+  });
+
   it("freeagent_get_balance_sheet passes as_at_date", async () => {
     const { server, tools } = createMockServer();
     const client = createMockClient();
@@ -262,3 +1743,345 @@ describe("registerAccountingTools", () => {
     );
   });
 });
+
+describe("registerVatReturnTools", () => {
+  const sources: VatSources = {
+    invoices: [
+      { url: "inv/1", dated_on: "2024-02-10", net_value: "1000.0", sales_tax_value: "200.0" },
+      { url: "inv/2", dated_on: "2024-01-05", net_value: "500.0", sales_tax_value: "0.0" },
+      { url: "inv/3", dated_on: "2024-03-01", status: "Draft", net_value: "900.0", sales_tax_value: "180.0" },
+    ],
+    credit_notes: [
+      { url: "cn/1", dated_on: "2024-03-02", net_value: "-100.0", sales_tax_value: "-20.0" },
+    ],
+    bills: [{ url: "bill/1", dated_on: "2024-02-20", total_value: "120.0", sales_tax_value: "20.0" }],
+    expenses: [
+      { url: "exp/1", dated_on: "2024-01-15", gross_value: "-60.0", sales_tax_value: "-10.0" },
+    ],
+    bank_transaction_explanations: [
+      { url: "bte/1", dated_on: "2024-03-10", gross_value: "240.0", sales_tax_value: "40.0" },
+      { url: "bte/2", dated_on: "2024-02-25", gross_value: "-36.0", sales_tax_value: "-6.0" },
+      { url: "bte/3", dated_on: "2024-02-11", gross_value: "1200.0", paid_invoice: "inv/1" },
+    ],
+  };
+
+  it("registers 8 tools", () => {
+    const { server, tools } = createMockServer();
+    registerVatReturnTools(server, createMockClient());
+    expect(tools.size).toBe(8);
+  });
+
+  it("vatBoxTransactions traces output tax, input tax and net purchases", () => {
+    expect(vatBoxTransactions(1, sources).map((t) => [t.url, t.amount])).toEqual([
+      ["inv/1", "200.00"],
+      ["cn/1", "-20.00"],
+      ["bte/1", "40.00"],
+    ]);
+    expect(vatBoxTransactions(4, sources).map((t) => [t.url, t.amount])).toEqual([
+      ["exp/1", "10.00"],
+      ["bill/1", "20.00"],
+      ["bte/2", "6.00"],
+    ]);
+    expect(vatBoxTransactions(5, sources).map((t) => t.amount)).toEqual([
+      "-10.00",
+      "200.00",
+      "-20.00",
+      "-6.00",
+      "-20.00",
+      "40.00",
+    ]);
+    expect(vatBoxTransactions(6, sources).map((t) => t.url)).toEqual(["inv/2", "inv/1", "cn/1", "bte/1"]);
+    expect(vatBoxTransactions(7, sources).map((t) => [t.url, t.amount])).toEqual([
+      ["exp/1", "50.00"],
+      ["bill/1", "100.00"],
+      ["bte/2", "30.00"],
+    ]);
+    expect(() => vatBoxTransactions(8, sources)).toThrow("Northern Ireland");
+  });
+
+  it("freeagent_get_vat_return_box_transactions fetches documents for the period", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockResolvedValue({ vat_return: { box1: "180.00" } });
+    const items: Record<string, unknown[]> = {
+      "/invoices": sources.invoices,
+      "/bank_accounts": [{ url: "ba/1" }],
+      "/bank_transaction_explanations": sources.bank_transaction_explanations,
+    };
+    vi.mocked(client.getAllPages).mockImplementation(async (path: string) => ({
+      items: items[path] ?? [],
+      pages_fetched: 1,
+      truncated: false,
+    }));
+    registerVatReturnTools(server, client);
+
+    const result = await tools.get("freeagent_get_vat_return_box_transactions")!({
+      period_ends_on: "2024-03-31",
+      box: 1,
+    });
+
+    expect(client.get).toHaveBeenCalledWith("/vat_returns/2024-03-31");
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/invoices",
+      "invoices",
+      { from_date: "2024-01-01", to_date: "2024-03-31", view: "all" },
+      1000
+    );
+    expect(client.getAllPages).toHaveBeenCalledWith(
+      "/bank_transaction_explanations",
+      "bank_transaction_explanations",
+      { from_date: "2024-01-01", to_date: "2024-03-31", bank_account: "ba/1" },
+      1000
+    );
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      period_starts_on: "2024-01-01",
+      warnings: [],
+      total: "240.00",
+      reported: "180.00",
+    });
+  });
+
+  it("freeagent_mark_vat_return_payment_as_paid calls the payment transition", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerVatReturnTools(server, client);
+
+    await tools.get("freeagent_mark_vat_return_payment_as_paid")!({
+      period_ends_on: "2024-03-31",
+      payment_date: "2024-05-07",
+    });
+
+    expect(client.putJson).toHaveBeenCalledWith(
+      "/vat_returns/2024-03-31/payments/2024-05-07/mark_as_paid",
+      {}
+    );
+  });
+
+  it("freeagent_get_vat_return_submission_status summarises filing and payments", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockResolvedValue({
+      vat_return: {
+        filing_status: "filed",
+        filed_at: "2024-04-20T10:00:00Z",
+        filed_reference: "123456",
+        box1: "200.00",
+        payments: [{ amount_due: "190.00", status: "unpaid" }],
+      },
+    });
+    registerVatReturnTools(server, client);
+
+    const result = await tools.get("freeagent_get_vat_return_submission_status")!({
+      period_ends_on: "2024-03-31",
+    });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      period_ends_on: "2024-03-31",
+      filing_status: "filed",
+      filed_at: "2024-04-20T10:00:00Z",
+      filed_reference: "123456",
+      payments: [{ amount_due: "190.00", status: "unpaid" }],
+    });
+  });
+});
+
+describe("registerTaxReturnTools", () => {
+  it("registers 12 tools", () => {
+    const { server, tools } = createMockServer();
+    registerTaxReturnTools(server, createMockClient());
+    expect(tools.size).toBe(12);
+  });
+
+  it("filterReturnsByPeriod keeps periods ending within the range", () => {
+    const returns = [
+      { period_ends_on: "2022-03-31" },
+      { period_ends_on: "2023-03-31" },
+      { period_ends_on: "2024-03-31" },
+      {},
+    ];
+    expect(filterReturnsByPeriod(returns, "2023-01-01", "2023-12-31")).toEqual([
+      { period_ends_on: "2023-03-31" },
+    ]);
+    expect(filterReturnsByPeriod(returns, undefined, "2022-12-31")).toEqual([
+      { period_ends_on: "2022-03-31" },
+    ]);
+    expect(filterReturnsByPeriod(returns, undefined, undefined)).toHaveLength(4);
+  });
+
+  it("freeagent_list_self_assessment_returns lists a user's returns in a period", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockResolvedValue({
+      self_assessment_returns: [
+        { period_ends_on: "2023-04-05", amount_due: "1200.0" },
+        { period_ends_on: "2024-04-05", amount_due: "900.0" },
+      ],
+    });
+    registerTaxReturnTools(server, client);
+
+    const result = await tools.get("freeagent_list_self_assessment_returns")!({
+      user_id: "7",
+      from_date: "2024-01-01",
+    });
+
+    expect(client.get).toHaveBeenCalledWith("/users/7/self_assessment_returns");
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      self_assessment_returns: [{ period_ends_on: "2024-04-05", amount_due: "900.0" }],
+    });
+  });
+
+  it("marks corporation tax returns and self assessment payments as paid", async () => {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    registerTaxReturnTools(server, client);
+
+    await tools.get("freeagent_mark_corporation_tax_return_as_paid")!({
+      period_ends_on: "2024-03-31",
+    });
+    await tools.get("freeagent_mark_self_assessment_payment_as_paid")!({
+      user_id: "7",
+      period_ends_on: "2024-04-05",
+      payment_date: "2025-01-31",
+    });
+
+    expect(client.putJson).toHaveBeenNthCalledWith(
+      1,
+      "/corporation_tax_returns/2024-03-31/mark_as_paid",
+      {}
+    );
+    expect(client.putJson).toHaveBeenNthCalledWith(
+      2,
+      "/users/7/self_assessment_returns/2024-04-05/payments/2025-01-31/mark_as_paid",
+      {}
+    );
+  });
+});
+
+describe("registerPayrollTools", () => {
+  const api = "https://api.freeagent.com/v2";
+  const alice = `${api}/users/1`;
+  const bob = `${api}/users/2`;
+
+  function payslip(user: string, basic: string, tax: string, employeeNi: string, employerNi: string) {
+    return {
+      user,
+      basic_pay: basic,
+      tax_deducted: tax,
+      employee_ni: employeeNi,
+      employer_ni: employerNi,
+      employee_pension: "50.0",
+      employer_pension: "30.0",
+    };
+  }
+
+  function setup() {
+    const { server, tools } = createMockServer();
+    const client = createMockClient();
+    vi.mocked(client.get).mockImplementation(async (path: string) => {
+      if (path === "/payroll/2025") {
+        return {
+          periods: [
+            { period: 1, dated_on: "2024-04-30" },
+            { period: 2, dated_on: "2024-05-31" },
+          ],
+          payments: [{ due_on: "2024-05-22", amount_due: "900.0", status: "paid" }],
+        };
+      }
+      const period = Number(path.split("/").pop());
+      return {
+        period: {
+          period,
+          dated_on: period === 1 ? "2024-04-30" : "2024-05-31",
+          payslips: [
+            payslip(alice, "3000.0", "400.0", "150.0", "300.0"),
+            payslip(bob, "2000.0", "200.0", "80.0", "170.0"),
+          ],
+        },
+      };
+    });
+    registerPayrollTools(server, client);
+    return { client, tools };
+  }
+
+  it("registers 4 tools", () => {
+    expect(setup().tools.size).toBe(4);
+  });
+
+  it("summarisePayslip works out gross and net pay", () => {
+    expect(
+      summarisePayslip({ ...payslip(alice, "3000.0", "400.0", "150.0", "300.0"), bonus: "500.0" })
+    ).toMatchObject({
+      gross_pay: "3500.00",
+      tax: "400.00",
+      employee_ni: "150.00",
+      employee_pension: "50.00",
+      net_pay: "2900.00",
+    });
+    expect(summarisePayslip({ user: alice, basic_pay: "100.0", net_pay: "95.5" }).net_pay).toBe("95.50");
+  });
+
+  it("monthlyLiabilities groups PAYE and NI by tax month", () => {
+    const summaries = [
+      summarisePayslip({ ...payslip(alice, "3000.0", "400.0", "150.0", "300.0"), dated_on: "2024-04-30", student_loan_deduction: "20.0" }),
+      summarisePayslip({ ...payslip(bob, "2000.0", "200.0", "80.0", "170.0"), dated_on: "2024-04-30" }),
+    ];
+    expect(monthlyLiabilities(summaries)).toEqual([
+      {
+        tax_month: 1,
+        starts_on: "2024-04-06",
+        ends_on: "2024-05-05",
+        paye: "620.00",
+        employee_ni: "230.00",
+        employer_ni: "470.00",
+        total: "1320.00",
+      },
+    ]);
+  });
+
+  it("monthlyLiabilities splits pay dates either side of the 5th", () => {
+    const summaries = ["2024-04-05", "2024-04-06", "2024-05-05", "2024-05-06", "2025-01-03"].map(
+      (dated_on) => summarisePayslip({ ...payslip(alice, "1000.0", "100.0", "0.0", "0.0"), dated_on })
+    );
+    expect(monthlyLiabilities(summaries).map((m) => [m.tax_month, m.starts_on, m.ends_on, m.paye])).toEqual([
+      [12, "2024-03-06", "2024-04-05", "100.00"],
+      [1, "2024-04-06", "2024-05-05", "200.00"],
+      [2, "2024-05-06", "2024-06-05", "100.00"],
+      [9, "2024-12-06", "2025-01-05", "100.00"],
+    ]);
+  });
+
+  it("freeagent_get_payslips filters a pay run to one user", async () => {
+    const { client, tools } = setup();
+    const result = await tools.get("freeagent_get_payslips")!({ year: 2025, period: 2, user: "2" });
+
+    expect(client.get).toHaveBeenCalledWith("/payroll/2025/2");
+    const data = JSON.parse(result.content[0].text);
+    expect(data.payslips).toHaveLength(1);
+    expect(data.payslips[0]).toMatchObject({ user: bob, net_pay: "1670.00" });
+  });
+
+  it("freeagent_get_user_pay_summary totals a user's year across pay runs", async () => {
+    const { tools } = setup();
+    const result = await tools.get("freeagent_get_user_pay_summary")!({ year: 2025, user: alice });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.payslips.map((p: any) => [p.period, p.dated_on])).toEqual([
+      [1, "2024-04-30"],
+      [2, "2024-05-31"],
+    ]);
+    expect(data.totals).toMatchObject({ gross_pay: "6000.00", tax: "800.00", net_pay: "4800.00" });
+  });
+
+  it("freeagent_get_payroll_liabilities reports each month and HMRC payments", async () => {
+    const { client, tools } = setup();
+    const result = await tools.get("freeagent_get_payroll_liabilities")!({ year: 2025 });
+
+    expect(client.get).toHaveBeenCalledTimes(3);
+    const data = JSON.parse(result.content[0].text);
+    expect(data.months.map((m: any) => [m.tax_month, m.total])).toEqual([
+      [1, "1300.00"],
+      [2, "1300.00"],
+    ]);
+    expect(data.payments).toHaveLength(1);
+  });
+});
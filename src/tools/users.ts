@@ -1,7 +1,14 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { FreeAgentClient } from "../client.js";
-import { jsonResponse, errorResponse, logToolCall, buildParams } from "../utils.js";
+import {
+  jsonResponse,
+  errorResponse,
+  logToolCall,
+  buildParams,
+  fetchList,
+  paginationSchema,
+} from "../utils.js";
 
 export function registerUserTools(server: McpServer, client: FreeAgentClient): void {
   server.tool(
@@ -12,12 +19,13 @@ export function registerUserTools(server: McpServer, client: FreeAgentClient): v
         .enum(["all", "staff", "active_staff", "advisors", "active_advisors"])
         .optional()
         .describe("Filter users by view type"),
+      ...paginationSchema,
     },
-    async ({ view }) => {
-      logToolCall("freeagent_list_users", { view });
+    async ({ view, page, per_page, all_pages }) => {
+      logToolCall("freeagent_list_users", { view, page, per_page, all_pages });
       try {
         const params = buildParams({ view });
-        const data = await client.get("/users", params);
+        const data = await fetchList(client, "/users", "users", params, { page, per_page, all_pages });
         return jsonResponse(data);
       } catch (error) {
         return errorResponse(error);
@@ -0,0 +1,376 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { FreeAgentClient } from "../client.js";
+import { jsonResponse, errorResponse, logToolCall, cents, money, listAll } from "../utils.js";
+
+export type VatBox = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+// Boxes 2, 8 and 9 cover Northern Ireland trade with the EU, which FreeAgent
+// does not break down by document
+const TRACEABLE_BOXES: VatBox[] = [1, 3, 4, 5, 6, 7];
+
+export interface VatDocument {
+  url: string;
+  reference?: string;
+  contact_name?: string;
+  description?: string;
+  dated_on: string;
+  status?: string;
+  net_value?: string;
+  total_value?: string;
+  gross_value?: string;
+  sales_tax_value?: string;
+}
+
+export interface VatExplanation extends VatDocument {
+  paid_invoice?: string;
+  paid_bill?: string;
+  paid_user?: string;
+  transfer_bank_account?: string;
+}
+
+export interface VatSources {
+  invoices: VatDocument[];
+  credit_notes: VatDocument[];
+  bills: VatDocument[];
+  expenses: VatDocument[];
+  bank_transaction_explanations: VatExplanation[];
+}
+
+interface VatReturn {
+  period_starts_on?: string;
+  filing_status?: string;
+  filed_at?: string;
+  filed_reference?: string;
+  payments?: unknown[];
+  [box: `box${number}`]: string | undefined;
+}
+
+export interface VatBoxTransaction {
+  type: "invoice" | "credit_note" | "bill" | "expense" | "bank_transaction_explanation";
+  url: string;
+  dated_on: string;
+  reference?: string;
+  contact_name?: string;
+  description?: string;
+  amount: string;
+}
+
+// Sales documents that have not been issued don't count towards the return
+function issued(doc: VatDocument): boolean {
+  return doc.status !== "Draft" && doc.status !== "Cancelled";
+}
+
+// Payments of invoices, bills and claims carry their VAT on the document
+// paid, and transfers carry none, so only direct income and spending count
+function direct(explanation: VatExplanation): boolean {
+  return (
+    !explanation.paid_invoice &&
+    !explanation.paid_bill &&
+    !explanation.paid_user &&
+    !explanation.transfer_bank_account
+  );
+}
+
+/**
+ * Lists the documents behind a VAT return box, with the amount each
+ * contributes. Expenses are stored as negative values, so their sign is
+ * flipped to match bills. Bank explanations are sales when money came in and
+ * purchases when it went out. Box 3 is box 1 (and 2); box 5 is box 3 less box 4.
+ */
+export function vatBoxTransactions(box: VatBox, sources: VatSources): VatBoxTransaction[] {
+  if (!TRACEABLE_BOXES.includes(box)) {
+    throw new Error(
+      `Box ${box} covers Northern Ireland trade with the EU and cannot be traced to individual documents`
+    );
+  }
+
+  const entries: {
+    type: VatBoxTransaction["type"];
+    doc: VatDocument;
+    sale: boolean;
+    tax: number;
+    net: number;
+  }[] = [];
+  for (const doc of sources.invoices.filter(issued)) {
+    entries.push({ type: "invoice", doc, sale: true, tax: cents(doc.sales_tax_value), net: cents(doc.net_value) });
+  }
+  for (const doc of sources.credit_notes.filter(issued)) {
+    entries.push({ type: "credit_note", doc, sale: true, tax: cents(doc.sales_tax_value), net: cents(doc.net_value) });
+  }
+  for (const doc of sources.bills) {
+    const tax = cents(doc.sales_tax_value);
+    const net = doc.net_value !== undefined ? cents(doc.net_value) : cents(doc.total_value) - tax;
+    entries.push({ type: "bill", doc, sale: false, tax, net });
+  }
+  for (const doc of sources.expenses) {
+    const tax = -cents(doc.sales_tax_value);
+    entries.push({ type: "expense", doc, sale: false, tax, net: -cents(doc.gross_value) - tax });
+  }
+  for (const doc of sources.bank_transaction_explanations.filter(direct)) {
+    const gross = cents(doc.gross_value);
+    const sale = gross > 0;
+    const tax = sale ? cents(doc.sales_tax_value) : -cents(doc.sales_tax_value);
+    entries.push({ type: "bank_transaction_explanation", doc, sale, tax, net: Math.abs(gross) - tax });
+  }
+
+  const amountFor = (entry: (typeof entries)[number]): number => {
+    switch (box) {
+      case 1:
+      case 3:
+        return entry.sale ? entry.tax : 0;
+      case 4:
+        return entry.sale ? 0 : entry.tax;
+      case 5:
+        return entry.sale ? entry.tax : -entry.tax;
+      case 6:
+        return entry.sale ? entry.net : 0;
+      default:
+        return entry.sale ? 0 : entry.net;
+    }
+  };
+
+  return entries
+    .map((entry) => ({ entry, amount: amountFor(entry) }))
+    .filter(({ amount }) => amount !== 0)
+    .map(({ entry: { type, doc }, amount }) => ({
+      type,
+      url: doc.url,
+      dated_on: doc.dated_on,
+      reference: doc.reference,
+      contact_name: doc.contact_name,
+      description: doc.description,
+      amount: money(amount),
+    }))
+    .sort((a, b) => a.dated_on.localeCompare(b.dated_on));
+}
+
+// Start of a VAT period ending on `periodEndsOn`, assuming quarterly returns
+function quarterStart(periodEndsOn: string): string {
+  const end = new Date(`${periodEndsOn}T00:00:00Z`);
+  return new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 2, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+const periodSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "period_ends_on must be YYYY-MM-DD")
+  .describe("Last day of the VAT period (YYYY-MM-DD), which identifies the return");
+
+const paymentDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "payment_date must be YYYY-MM-DD")
+  .describe("Due date of the payment (YYYY-MM-DD), as listed in the return's payments");
+
+export function registerVatReturnTools(server: McpServer, client: FreeAgentClient): void {
+  // List VAT returns
+  server.tool(
+    "freeagent_list_vat_returns",
+    "List VAT returns from FreeAgent with their periods, amounts due and filing status",
+    {},
+    async () => {
+      logToolCall("freeagent_list_vat_returns");
+      try {
+        const data = await client.get("/vat_returns");
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Get VAT return
+  server.tool(
+    "freeagent_get_vat_return",
+    "Get a VAT return from FreeAgent, including the nine boxes and its payments",
+    {
+      period_ends_on: periodSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_get_vat_return", { period_ends_on });
+      try {
+        const data = await client.get(`/vat_returns/${period_ends_on}`);
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // VAT return submission status
+  server.tool(
+    "freeagent_get_vat_return_submission_status",
+    "Get the Making Tax Digital submission status of a VAT return and whether each of its payments has been made",
+    {
+      period_ends_on: periodSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_get_vat_return_submission_status", { period_ends_on });
+      try {
+        const { vat_return } = await client.get<{ vat_return: VatReturn }>(
+          `/vat_returns/${period_ends_on}`
+        );
+        return jsonResponse({
+          period_ends_on,
+          filing_status: vat_return.filing_status,
+          filed_at: vat_return.filed_at,
+          filed_reference: vat_return.filed_reference,
+          payments: vat_return.payments ?? [],
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Transactions behind a VAT box
+  server.tool(
+    "freeagent_get_vat_return_box_transactions",
+    "List the invoices, credit notes, bills, expenses and bank transaction explanations behind a box of a VAT return, with the amount each contributes",
+    {
+      period_ends_on: periodSchema,
+      box: z
+        .number()
+        .int()
+        .min(1)
+        .max(9)
+        .describe("VAT return box number. Boxes 2, 8 and 9 cannot be traced to documents"),
+      period_starts_on: z
+        .string()
+        .optional()
+        .describe("First day of the VAT period (YYYY-MM-DD). Defaults to the return's own start, or three months before its end"),
+    },
+    async ({ period_ends_on, box, period_starts_on }) => {
+      logToolCall("freeagent_get_vat_return_box_transactions", { period_ends_on, box, period_starts_on });
+      try {
+        const { vat_return } = await client.get<{ vat_return: VatReturn }>(
+          `/vat_returns/${period_ends_on}`
+        );
+        const from_date = period_starts_on ?? vat_return.period_starts_on ?? quarterStart(period_ends_on);
+        const params = { from_date, to_date: period_ends_on };
+
+        const warnings: string[] = [];
+        const sources = {} as VatSources;
+        for (const key of ["invoices", "credit_notes", "bills", "expenses"] as const) {
+          sources[key] = await listAll<VatDocument>(
+            client,
+            `/${key}`,
+            key,
+            key === "bills" || key === "expenses" ? params : { ...params, view: "all" },
+            warnings
+          );
+        }
+
+        // Explanations can only be listed one bank account at a time
+        const accounts = await listAll<{ url: string }>(client, "/bank_accounts", "bank_accounts", {}, warnings);
+        sources.bank_transaction_explanations = [];
+        for (const account of accounts) {
+          sources.bank_transaction_explanations.push(
+            ...(await listAll<VatExplanation>(
+              client,
+              "/bank_transaction_explanations",
+              "bank_transaction_explanations",
+              { ...params, bank_account: account.url },
+              warnings
+            ))
+          );
+        }
+
+        const transactions = vatBoxTransactions(box as VatBox, sources);
+        const total = transactions.reduce((sum, t) => sum + cents(t.amount), 0);
+        return jsonResponse({
+          box,
+          period_starts_on: from_date,
+          period_ends_on,
+          total: money(total),
+          reported: vat_return[`box${box}`],
+          transactions,
+          warnings,
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark VAT return as filed
+  server.tool(
+    "freeagent_mark_vat_return_as_filed",
+    "Mark a VAT return as filed in FreeAgent, for returns submitted outside FreeAgent",
+    {
+      period_ends_on: periodSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_vat_return_as_filed", { period_ends_on });
+      try {
+        const data = await client.putJson(`/vat_returns/${period_ends_on}/mark_as_filed`, {});
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark VAT return as unfiled
+  server.tool(
+    "freeagent_mark_vat_return_as_unfiled",
+    "Mark a VAT return as unfiled in FreeAgent, undoing a manual filing",
+    {
+      period_ends_on: periodSchema,
+    },
+    async ({ period_ends_on }) => {
+      logToolCall("freeagent_mark_vat_return_as_unfiled", { period_ends_on });
+      try {
+        const data = await client.putJson(`/vat_returns/${period_ends_on}/mark_as_unfiled`, {});
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark VAT payment as paid
+  server.tool(
+    "freeagent_mark_vat_return_payment_as_paid",
+    "Mark a VAT return payment as paid in FreeAgent",
+    {
+      period_ends_on: periodSchema,
+      payment_date: paymentDateSchema,
+    },
+    async ({ period_ends_on, payment_date }) => {
+      logToolCall("freeagent_mark_vat_return_payment_as_paid", { period_ends_on, payment_date });
+      try {
+        const data = await client.putJson(
+          `/vat_returns/${period_ends_on}/payments/${payment_date}/mark_as_paid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+
+  // Mark VAT payment as unpaid
+  server.tool(
+    "freeagent_mark_vat_return_payment_as_unpaid",
+    "Mark a VAT return payment as unpaid in FreeAgent",
+    {
+      period_ends_on: periodSchema,
+      payment_date: paymentDateSchema,
+    },
+    async ({ period_ends_on, payment_date }) => {
+      logToolCall("freeagent_mark_vat_return_payment_as_unpaid", { period_ends_on, payment_date });
+      try {
+        const data = await client.putJson(
+          `/vat_returns/${period_ends_on}/payments/${payment_date}/mark_as_unpaid`,
+          {}
+        );
+        return jsonResponse(data);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  );
+}
@@ -1,13 +1,25 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+  fileResponse,
   jsonResponse,
   errorResponse,
   buildParams,
+  cents,
+  money,
+  addDays,
+  daysBetween,
+  listAll,
   logToolCall,
+  resolveUploadPath,
   TOKEN_BUFFER_MS,
   MAX_PAGE_SIZE,
+  MAX_LIST_ITEMS,
   CACHE_TTL_MS,
 } from "./utils.js";
+import type { FreeAgentClient } from "./client.js";
 
 describe("jsonResponse", () => {
   it("returns correct MCP content structure", () => {
@@ -42,6 +54,74 @@ describe("errorResponse", () => {
   });
 });
 
+describe("fileResponse", () => {
+  const file = { data: Buffer.from("%PDF-1.4"), content_type: "application/pdf" };
+
+  it("returns an embedded resource unless asked to save", async () => {
+    const result = await fileResponse(file, "freeagent://invoices/1/pdf", "invoice-1.pdf");
+    expect(result.content[0]).toEqual({
+      type: "resource",
+      resource: {
+        uri: "freeagent://invoices/1/pdf",
+        mimeType: "application/pdf",
+        blob: file.data.toString("base64"),
+      },
+    });
+  });
+
+  it("saves the file in the configured output directory", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "pdf-"));
+    try {
+      const outputDir = join(dir, "nested");
+      const result = await fileResponse(file, "freeagent://invoices/1/pdf", "invoice-1.pdf", true, {
+        outputDir,
+      });
+      const path = join(outputDir, "invoice-1.pdf");
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        path,
+        bytes: 8,
+        content_type: "application/pdf",
+      });
+      expect(readFileSync(path)).toEqual(file.data);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps saved files inside the output directory", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "pdf-"));
+    try {
+      const result = await fileResponse(file, "freeagent://invoices/1/pdf", "../../invoice-1.pdf", true, {
+        outputDir: dir,
+      });
+      expect(JSON.parse(result.content[0].text as string).path).toBe(join(dir, "invoice-1.pdf"));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses to save without an output directory", async () => {
+    await expect(fileResponse(file, "freeagent://invoices/1/pdf", "invoice-1.pdf", true)).rejects.toThrow(
+      "Set FREEAGENT_OUTPUT_DIR"
+    );
+  });
+});
+
+describe("money and date helpers", () => {
+  it("converts between decimal amounts and whole cents", () => {
+    expect(cents("12.345")).toBe(1235);
+    expect(cents(undefined)).toBe(0);
+    expect(cents(-0.1 - 0.2)).toBe(-30);
+    expect(money(-30)).toBe("-0.30");
+  });
+
+  it("moves dates by days across month ends", () => {
+    expect(addDays("2024-02-28", 2)).toBe("2024-03-01");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+    expect(daysBetween("2024-03-01", "2024-02-28")).toBe(-2);
+  });
+});
+
 describe("buildParams", () => {
   it("includes defined values and converts to strings", () => {
     expect(buildParams({ a: "x", b: 5, c: true })).toEqual({
@@ -59,6 +139,72 @@ describe("buildParams", () => {
   });
 });
 
+describe("resolveUploadPath", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "uploads-"));
+    mkdirSync(join(dir, "uploads"));
+    writeFileSync(join(dir, "uploads", "receipt.pdf"), "%PDF");
+    writeFileSync(join(dir, "secret.txt"), "secret");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("allows any path when no upload directory is set", async () => {
+    await expect(resolveUploadPath("/etc/hosts", {})).resolves.toBe("/etc/hosts");
+  });
+
+  it("resolves paths inside the upload directory", async () => {
+    const uploadDir = join(dir, "uploads");
+    const expected = join(realpathSync(uploadDir), "receipt.pdf");
+    await expect(resolveUploadPath("receipt.pdf", { uploadDir })).resolves.toBe(expected);
+    await expect(resolveUploadPath(join(uploadDir, "receipt.pdf"), { uploadDir })).resolves.toBe(expected);
+  });
+
+  it("refuses paths and symlinks that lead outside the upload directory", async () => {
+    const uploadDir = join(dir, "uploads");
+    symlinkSync(join(dir, "secret.txt"), join(uploadDir, "link.txt"));
+    await expect(resolveUploadPath("../secret.txt", { uploadDir })).rejects.toThrow("outside the upload directory");
+    await expect(resolveUploadPath("link.txt", { uploadDir })).rejects.toThrow("outside the upload directory");
+  });
+
+  it("refuses every path when local files are disabled", async () => {
+    await expect(resolveUploadPath("receipt.pdf", { noLocalFiles: true })).rejects.toThrow(
+      "file_path is disabled on this server"
+    );
+  });
+});
+
+describe("listAll", () => {
+  function clientReturning(truncated: boolean) {
+    const getAllPages = vi.fn().mockResolvedValue({ items: [{ id: 1 }], pages_fetched: 1, truncated });
+    return { client: { getAllPages } as unknown as FreeAgentClient, getAllPages };
+  }
+
+  it("returns the items up to the list cap", async () => {
+    const { client, getAllPages } = clientReturning(false);
+    const warnings: string[] = [];
+
+    const items = await listAll(client, "/bills", "bills", { view: "open" }, warnings);
+
+    expect(getAllPages).toHaveBeenCalledWith("/bills", "bills", { view: "open" }, MAX_LIST_ITEMS);
+    expect(items).toEqual([{ id: 1 }]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("warns when the list was truncated", async () => {
+    const { client } = clientReturning(true);
+    const warnings: string[] = [];
+
+    await listAll(client, "/bills", "bills", {}, warnings);
+
+    expect(warnings).toEqual([`Only the first ${MAX_LIST_ITEMS} bills from /bills were included`]);
+  });
+});
+
 describe("logToolCall", () => {
   let errorSpy: ReturnType<typeof vi.spyOn>;
 
@@ -91,6 +237,7 @@ describe("constants", () => {
   it("has expected values", () => {
     expect(TOKEN_BUFFER_MS).toBe(60_000);
     expect(MAX_PAGE_SIZE).toBe(50);
+    expect(MAX_LIST_ITEMS).toBe(1000);
     expect(CACHE_TTL_MS).toBe(24 * 60 * 60 * 1000);
   });
 });
@@ -1,7 +1,95 @@
+import { mkdir, realpath, writeFile } from "node:fs/promises";
+import { basename, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { z } from "zod";
+import type { BinaryResult, FreeAgentClient } from "./client.js";
+
 export const TOKEN_BUFFER_MS = 60_000;
 export const MAX_PAGE_SIZE = 50;
+export const MAX_LIST_ITEMS = 1000; // hard cap for all_pages
 export const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24h
 
+// Shared input schema for list tools, spread into each tool's schema
+export const paginationSchema = {
+  page: z.number().int().min(1).optional().describe("Page number to fetch (starts at 1)"),
+  per_page: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(`Results per page (max ${MAX_PAGE_SIZE})`),
+  all_pages: z
+    .boolean()
+    .optional()
+    .describe(`Fetch every page and combine the results (capped at ${MAX_LIST_ITEMS} items)`),
+};
+
+export interface PaginationArgs {
+  page?: number;
+  per_page?: number;
+  all_pages?: boolean;
+}
+
+// Where tools may read files to upload from and save downloads to
+export interface FileOptions {
+  /** Directory file_path inputs must be inside; any path is allowed when unset */
+  uploadDir?: string;
+  /** Refuse file_path inputs altogether, e.g. when remote clients share the server */
+  noLocalFiles?: boolean;
+  /** Directory downloaded files are saved in; saving is refused when unset */
+  outputDir?: string;
+}
+
+/**
+ * Checks a file_path tool input against the server's file settings and
+ * returns the path to read. Relative paths are taken from the upload
+ * directory, and symlinks are followed before checking the file is inside it.
+ */
+export async function resolveUploadPath(filePath: string, options: FileOptions): Promise<string> {
+  if (options.noLocalFiles) {
+    throw new Error(
+      "file_path is disabled on this server. Set FREEAGENT_UPLOAD_DIR to allow files from one directory"
+    );
+  }
+  if (!options.uploadDir) return filePath;
+
+  const root = await realpath(options.uploadDir);
+  const path = await realpath(resolve(root, filePath));
+  const rel = relative(root, path);
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`${filePath} is outside the upload directory ${options.uploadDir}`);
+  }
+  return path;
+}
+
+// Amounts are added up in whole cents so totals do not pick up float error
+
+/** Converts a decimal amount to whole cents, treating a missing value as zero */
+export function cents(value: unknown): number {
+  return Math.round(Number(value ?? 0) * 100);
+}
+
+/** Formats whole cents as a decimal amount with two places */
+export function money(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/** Moves a YYYY-MM-DD date by a number of days, backwards when negative */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Days from `from` to `to`, negative when `to` is earlier */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export function jsonResponse(data: unknown) {
   return {
     content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
@@ -16,6 +104,37 @@ export function errorResponse(error: unknown) {
   };
 }
 
+// Saves a downloaded file to the server's output directory when `save` is
+// set, or returns it inline as an embedded resource
+export async function fileResponse(
+  file: BinaryResult,
+  uri: string,
+  fileName: string,
+  save = false,
+  options: FileOptions = {}
+) {
+  if (save) {
+    const { outputDir } = options;
+    if (!outputDir) {
+      throw new Error(
+        "Saving files is not enabled on this server. Set FREEAGENT_OUTPUT_DIR, or leave out save to get the file inline"
+      );
+    }
+    await mkdir(outputDir, { recursive: true });
+    const path = join(outputDir, basename(fileName));
+    await writeFile(path, file.data);
+    return jsonResponse({ path, bytes: file.data.length, content_type: file.content_type });
+  }
+  return {
+    content: [
+      {
+        type: "resource" as const,
+        resource: { uri, mimeType: file.content_type, blob: file.data.toString("base64") },
+      },
+    ],
+  };
+}
+
 export function buildParams(
   obj: Record<string, unknown>
 ): Record<string, string> {
@@ -39,3 +158,41 @@ export function logToolCall(tool: string, params?: Record<string, unknown>) {
   }
   console.error(JSON.stringify(sanitized));
 }
+
+// Fetches every item in a list, noting in `warnings` when the cap was hit
+export async function listAll<T = unknown>(
+  client: FreeAgentClient,
+  path: string,
+  key: string,
+  params: Record<string, string>,
+  warnings: string[]
+): Promise<T[]> {
+  const { items, truncated } = await client.getAllPages(path, key, params, MAX_LIST_ITEMS);
+  if (truncated) warnings.push(`Only the first ${MAX_LIST_ITEMS} ${key} from ${path} were included`);
+  return items as T[];
+}
+
+export async function fetchList(
+  client: FreeAgentClient,
+  path: string,
+  key: string,
+  params: Record<string, string>,
+  { page, per_page, all_pages }: PaginationArgs
+): Promise<Record<string, unknown>> {
+  if (all_pages) {
+    const result = await client.getAllPages(path, key, params, MAX_LIST_ITEMS);
+    return {
+      [key]: result.items,
+      pagination: {
+        pages_fetched: result.pages_fetched,
+        total_count: result.total_count,
+        truncated: result.truncated,
+      },
+    };
+  }
+  const { data, pagination } = await client.getPage<Record<string, unknown>>(path, {
+    ...params,
+    ...buildParams({ page, per_page: per_page ?? MAX_PAGE_SIZE }),
+  });
+  return { ...data, pagination };
+}